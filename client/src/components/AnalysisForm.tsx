@@ -1,7 +1,28 @@
-import { useState } from "react";
-import { Search, Clock, Zap, Target } from "lucide-react";
-import type { AnalysisRequest, AnalysisResult } from "../types/analysis";
-import { analyzeRedditData } from "../services/api";
+import { useState, useEffect } from "react";
+import {
+  Search,
+  Clock,
+  Zap,
+  Target,
+  Settings,
+  Compass,
+} from "lucide-react";
+import type {
+  AnalysisRequest,
+  AnalysisResult,
+  CategoryOption,
+  PreprocessingOptions,
+  SentimentEngineOptions,
+  SentimentPolicy,
+} from "../types/analysis";
+import {
+  analyzeRedditData,
+  getCategories,
+  getPreprocessingOptions,
+  getSentimentEngineOptions,
+} from "../services/api";
+import CategoryEditor from "./CategoryEditor";
+import SubredditDiscovery from "./SubredditDiscovery";
 
 interface AnalysisFormProps {
   onAnalysisStart: () => void;
@@ -9,7 +30,8 @@ interface AnalysisFormProps {
   isLoading: boolean;
 }
 
-const categories = [
+// Shown until the server's categories have loaded
+const fallbackCategories: CategoryOption[] = [
   { value: "technology", label: "Technology" },
   { value: "science", label: "Science" },
   { value: "politics", label: "Politics" },
@@ -20,7 +42,26 @@ const categories = [
   { value: "sports", label: "Sports" },
   { value: "worldnews", label: "World News" },
   { value: "business", label: "Business" },
-];
+].map((category) => ({ ...category, subreddits: [] }));
+
+// "rust, r/golang" -> ["rust", "golang"]
+const parseSubreddits = (value: string) =>
+  value
+    .split(",")
+    .map((name) => name.trim().replace(/^\/?r\//i, ""))
+    .filter(Boolean);
+
+const parseLanguages = (value: string) =>
+  value
+    .split(",")
+    .map((code) => code.trim().toLowerCase())
+    .filter(Boolean);
+
+const parseStages = (value: string) =>
+  value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
 
 const timeframes = [
   { value: "hour", label: "Past Hour" },
@@ -30,6 +71,23 @@ const timeframes = [
   { value: "year", label: "Past Year" },
 ];
 
+const searchSorts = [
+  { value: "relevance", label: "Most Relevant" },
+  { value: "hot", label: "Hot" },
+  { value: "top", label: "Top" },
+  { value: "new", label: "Newest" },
+  { value: "comments", label: "Most Comments" },
+];
+
+const commentSorts = [
+  { value: "top", label: "Top" },
+  { value: "confidence", label: "Best" },
+  { value: "new", label: "Newest" },
+  { value: "old", label: "Oldest" },
+  { value: "controversial", label: "Controversial" },
+  { value: "qa", label: "Q&A" },
+];
+
 export default function AnalysisForm({
   onAnalysisStart,
   onAnalysisComplete,
@@ -40,8 +98,77 @@ export default function AnalysisForm({
     query: "",
     timeframe: "week",
     minPostScore: 50,
+    searchSort: "relevance",
+    postLimit: 5,
+    commentSort: "top",
+    commentLimit: 50,
+    expandSynonyms: false,
     includeEntities: true,
   });
+  // Comma-separated subreddit lists as typed
+  const [subredditLists, setSubredditLists] = useState({
+    subreddits: "",
+    include: "",
+    exclude: "",
+  });
+  // Comma-separated language codes as typed, empty for all languages
+  const [languages, setLanguages] = useState("");
+  // Comma-separated stage names, prefilled with the server's default
+  const [preprocessing, setPreprocessing] = useState("");
+  const [preprocessingOptions, setPreprocessingOptions] =
+    useState<PreprocessingOptions | null>(null);
+  // Sentiment engine and how sarcasm adjusts sentiment, empty for the
+  // server's defaults
+  const [sentimentEngine, setSentimentEngine] = useState("");
+  const [engineOptions, setEngineOptions] =
+    useState<SentimentEngineOptions | null>(null);
+  const [sarcasmPolicy, setSarcasmPolicy] = useState("");
+  const isCustom = formData.category === "custom";
+  const [categories, setCategories] = useState(fallbackCategories);
+  const [isEditingCategories, setIsEditingCategories] = useState(false);
+  // Query the discovery panel was opened for
+  const [discoveryQuery, setDiscoveryQuery] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCategories();
+    getPreprocessingOptions()
+      .then((options) => {
+        setPreprocessingOptions(options);
+        setPreprocessing(options.default.join(", "));
+      })
+      .catch((error) =>
+        console.error("Error loading preprocessing stages:", error)
+      );
+    getSentimentEngineOptions()
+      .then(setEngineOptions)
+      .catch((error) =>
+        console.error("Error loading sentiment engines:", error)
+      );
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const result = await getCategories();
+      if (result.success) {
+        setCategories(result.data);
+        return result.data;
+      }
+    } catch (error) {
+      console.error("Error loading categories:", error);
+    }
+    return null;
+  };
+
+  // Selecting a category applies its default time range and minimum score
+  const handleCategoryChange = (value: string) => {
+    const category = categories.find((cat) => cat.value === value);
+    setFormData((prev) => ({
+      ...prev,
+      category: value,
+      timeframe: category?.defaultTimeframe || prev.timeframe,
+      minPostScore: category?.defaultMinScore ?? prev.minPostScore,
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,12 +178,44 @@ export default function AnalysisForm({
       return;
     }
 
-    console.log("🎯 Starting analysis with form data:", formData);
+    const request: AnalysisRequest = {
+      ...(isCustom
+        ? {
+            ...formData,
+            subreddits: parseSubreddits(subredditLists.subreddits),
+          }
+        : {
+            ...formData,
+            include: parseSubreddits(subredditLists.include),
+            exclude: parseSubreddits(subredditLists.exclude),
+          }),
+      languages: parseLanguages(languages),
+      // Left to the server's default when cleared
+      preprocessing: parseStages(preprocessing).length
+        ? parseStages(preprocessing)
+        : undefined,
+      sentimentPolicy:
+        sentimentEngine || sarcasmPolicy
+          ? {
+              ...(sentimentEngine ? { engine: sentimentEngine } : {}),
+              ...(sarcasmPolicy
+                ? { sarcasm: sarcasmPolicy as SentimentPolicy["sarcasm"] }
+                : {}),
+            }
+          : undefined,
+    };
+
+    if (isCustom && request.subreddits!.length === 0) {
+      alert("Please enter at least one subreddit");
+      return;
+    }
+
+    console.log("🎯 Starting analysis with form data:", request);
     onAnalysisStart();
 
     try {
       console.log("📡 Calling analyzeRedditData...");
-      const result = await analyzeRedditData(formData);
+      const result = await analyzeRedditData(request);
 
       console.log("🎉 Analysis result received:", result);
       console.log("📋 Result success:", result.success);
@@ -77,7 +236,11 @@ export default function AnalysisForm({
       }
     } catch (error) {
       console.error("💥 Analysis failed with exception:", error);
-      alert("Failed to start analysis. Please try again.");
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to start analysis. Please try again."
+      );
       onAnalysisComplete({
         success: false,
         cached: false,
@@ -112,9 +275,20 @@ export default function AnalysisForm({
               htmlFor="query"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              <div className="flex items-center space-x-2">
-                <Search className="h-4 w-4" />
-                <span>Search Query</span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Search className="h-4 w-4" />
+                  <span>Search Query</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setDiscoveryQuery(formData.query.trim())}
+                  className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  disabled={isLoading || !formData.query.trim()}
+                >
+                  <Compass className="h-3 w-3" />
+                  <span>Discover subreddits</span>
+                </button>
               </div>
             </label>
             <input
@@ -127,8 +301,24 @@ export default function AnalysisForm({
               disabled={isLoading}
             />
             <p className="text-xs text-gray-500 mt-1">
-              Keywords to search across Reddit discussions
+              Keywords to search across Reddit discussions. Use "exact
+              phrases", a OR b, +required and -excluded terms
             </p>
+            <label className="flex items-center space-x-2 mt-2">
+              <input
+                type="checkbox"
+                checked={formData.expandSynonyms}
+                onChange={(e) =>
+                  handleInputChange("expandSynonyms", e.target.checked)
+                }
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                disabled={isLoading}
+              />
+              <span className="text-xs text-gray-700">
+                Also search synonyms (GTA VI ↔ GTA 6, AI ↔ artificial
+                intelligence)
+              </span>
+            </label>
           </div>
 
           {/* Category */}
@@ -137,15 +327,26 @@ export default function AnalysisForm({
               htmlFor="category"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              <div className="flex items-center space-x-2">
-                <Target className="h-4 w-4" />
-                <span>Category</span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Target className="h-4 w-4" />
+                  <span>Category</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setIsEditingCategories(!isEditingCategories)}
+                  className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+                  disabled={isLoading}
+                >
+                  <Settings className="h-3 w-3" />
+                  <span>Manage</span>
+                </button>
               </div>
             </label>
             <select
               id="category"
               value={formData.category}
-              onChange={(e) => handleInputChange("category", e.target.value)}
+              onChange={(e) => handleCategoryChange(e.target.value)}
               className="input-field"
               disabled={isLoading}
             >
@@ -154,7 +355,17 @@ export default function AnalysisForm({
                   {cat.label}
                 </option>
               ))}
+              <option value="custom">Custom subreddits</option>
             </select>
+            {categories.find((cat) => cat.value === formData.category)
+              ?.description && (
+              <p className="text-xs text-gray-500 mt-1">
+                {
+                  categories.find((cat) => cat.value === formData.category)!
+                    .description
+                }
+              </p>
+            )}
           </div>
 
           {/* Timeframe */}
@@ -184,6 +395,130 @@ export default function AnalysisForm({
           </div>
         </div>
 
+        {/* Subreddit Discovery */}
+        {discoveryQuery && (
+          <SubredditDiscovery
+            query={discoveryQuery}
+            // Too few posts in the last hour or day to rank subreddits
+            timeframe={
+              formData.timeframe === "hour" || formData.timeframe === "day"
+                ? "week"
+                : formData.timeframe
+            }
+            onUse={(subreddits) => {
+              handleInputChange("category", "custom");
+              setSubredditLists((prev) => ({
+                ...prev,
+                subreddits: subreddits.join(", "),
+              }));
+              setDiscoveryQuery(null);
+            }}
+            onClose={() => setDiscoveryQuery(null)}
+          />
+        )}
+
+        {/* Category Editor */}
+        {isEditingCategories && (
+          <CategoryEditor
+            categories={categories}
+            selectedKey={formData.category}
+            timeframes={timeframes}
+            onSaved={async (key) => {
+              const updated = (await loadCategories()) || categories;
+              // After a delete, move off the removed category
+              const selected =
+                key ||
+                (updated.some((cat) => cat.value === formData.category)
+                  ? formData.category
+                  : updated[0]?.value || "custom");
+              handleInputChange("category", selected);
+            }}
+            onClose={() => setIsEditingCategories(false)}
+          />
+        )}
+
+        {/* Subreddit Selection */}
+        {isCustom ? (
+          <div>
+            <label
+              htmlFor="subreddits"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Subreddits
+            </label>
+            <input
+              type="text"
+              id="subreddits"
+              value={subredditLists.subreddits}
+              onChange={(e) =>
+                setSubredditLists((prev) => ({
+                  ...prev,
+                  subreddits: e.target.value,
+                }))
+              }
+              placeholder="e.g., rust, golang, ExperiencedDevs"
+              className="input-field"
+              disabled={isLoading}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Comma-separated list of subreddits to analyze
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label
+                htmlFor="include"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Also Include
+              </label>
+              <input
+                type="text"
+                id="include"
+                value={subredditLists.include}
+                onChange={(e) =>
+                  setSubredditLists((prev) => ({
+                    ...prev,
+                    include: e.target.value,
+                  }))
+                }
+                placeholder="e.g., LocalLLaMA, selfhosted"
+                className="input-field"
+                disabled={isLoading}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Extra subreddits to add to the category
+              </p>
+            </div>
+            <div>
+              <label
+                htmlFor="exclude"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Exclude
+              </label>
+              <input
+                type="text"
+                id="exclude"
+                value={subredditLists.exclude}
+                onChange={(e) =>
+                  setSubredditLists((prev) => ({
+                    ...prev,
+                    exclude: e.target.value,
+                  }))
+                }
+                placeholder="e.g., coding, devops"
+                className="input-field"
+                disabled={isLoading}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Subreddits of the category to leave out
+              </p>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Min Post Score */}
           <div>
@@ -241,6 +576,225 @@ export default function AnalysisForm({
           </div>
         </div>
 
+        {/* Sampling */}
+        <div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label
+                htmlFor="searchSort"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Post Sort
+              </label>
+              <select
+                id="searchSort"
+                value={formData.searchSort}
+                onChange={(e) =>
+                  handleInputChange("searchSort", e.target.value)
+                }
+                className="input-field"
+                disabled={isLoading}
+              >
+                {searchSorts.map((sort) => (
+                  <option key={sort.value} value={sort.value}>
+                    {sort.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="postLimit"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Posts per Subreddit
+              </label>
+              <input
+                type="number"
+                id="postLimit"
+                min="1"
+                max="50"
+                value={formData.postLimit}
+                onChange={(e) =>
+                  handleInputChange("postLimit", parseInt(e.target.value) || 1)
+                }
+                className="input-field"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="commentSort"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Comment Sort
+              </label>
+              <select
+                id="commentSort"
+                value={formData.commentSort}
+                onChange={(e) =>
+                  handleInputChange("commentSort", e.target.value)
+                }
+                className="input-field"
+                disabled={isLoading}
+              >
+                {commentSorts.map((sort) => (
+                  <option key={sort.value} value={sort.value}>
+                    {sort.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="commentLimit"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Comments per Post
+              </label>
+              <input
+                type="number"
+                id="commentLimit"
+                min="1"
+                max="500"
+                step="10"
+                value={formData.commentLimit}
+                onChange={(e) =>
+                  handleInputChange(
+                    "commentLimit",
+                    parseInt(e.target.value) || 1
+                  )
+                }
+                className="input-field"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Sort by newest, top or controversial to sample different sides
+            of a discussion. More posts and comments take longer to analyze.
+          </p>
+        </div>
+
+        {/* Languages */}
+        <div>
+          <label
+            htmlFor="languages"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Languages
+          </label>
+          <input
+            type="text"
+            id="languages"
+            value={languages}
+            onChange={(e) => setLanguages(e.target.value)}
+            placeholder="All languages, or e.g. en, de"
+            className="input-field"
+            disabled={isLoading}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Keep only comments in these languages. Sentiment is scored for
+            English only; comments in other languages are counted but left out
+            of the averages.
+          </p>
+        </div>
+
+        {/* Preprocessing */}
+        <div>
+          <label
+            htmlFor="preprocessing"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Preprocessing
+          </label>
+          <input
+            type="text"
+            id="preprocessing"
+            value={preprocessing}
+            onChange={(e) => setPreprocessing(e.target.value)}
+            placeholder="Default stages"
+            className="input-field"
+            disabled={isLoading}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Stages run in this order.
+            {preprocessingOptions && (
+              <>
+                {" "}
+                Available:{" "}
+                {preprocessingOptions.stages.map((stage, index) => (
+                  <span key={stage.name} title={stage.description}>
+                    {index > 0 && ", "}
+                    <code>{stage.name}</code>
+                  </span>
+                ))}
+              </>
+            )}
+          </p>
+        </div>
+
+        {/* Sentiment Engine */}
+        <div>
+          <label
+            htmlFor="sentimentEngine"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Sentiment Engine
+          </label>
+          <select
+            id="sentimentEngine"
+            value={sentimentEngine}
+            onChange={(e) => setSentimentEngine(e.target.value)}
+            className="input-field"
+            disabled={isLoading}
+          >
+            <option value="">
+              Default{engineOptions ? ` (${engineOptions.default})` : ""}
+            </option>
+            {engineOptions?.engines.map((engine) => (
+              <option key={engine.name} value={engine.name}>
+                {engine.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {engineOptions?.engines.find(
+              (engine) => engine.name === sentimentEngine
+            )?.description ||
+              "Scores the sentiment of posts and comments. Analyses of the same query with different engines can be compared."}
+          </p>
+        </div>
+
+        {/* Sarcasm */}
+        <div>
+          <label
+            htmlFor="sarcasmPolicy"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Sarcasm
+          </label>
+          <select
+            id="sarcasmPolicy"
+            value={sarcasmPolicy}
+            onChange={(e) => setSarcasmPolicy(e.target.value)}
+            className="input-field"
+            disabled={isLoading}
+          >
+            <option value="">Default</option>
+            <option value="none">Don't adjust</option>
+            <option value="dampen">Dampen sarcastic sentiment</option>
+            <option value="invert">Invert sarcastic sentiment</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            How comments detected as sarcastic change the sentiment score, in
+            proportion to the detector's confidence.
+          </p>
+        </div>
+
         {/* Progress Bar */}
         {isLoading && (
           <div className="space-y-2">
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { Save, Trash2, X } from "lucide-react";
+import type { CategoryInput, CategoryOption } from "../types/analysis";
+import {
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from "../services/api";
+
+interface CategoryEditorProps {
+  categories: CategoryOption[];
+  selectedKey?: string; // Category to edit first, a new one when missing
+  timeframes: Array<{ value: string; label: string }>;
+  onSaved: (key?: string) => void; // Called after create, update or delete
+  onClose: () => void;
+}
+
+const NEW_CATEGORY = "";
+
+// Kept for the browser tab, so the token is entered once per session
+const ADMIN_TOKEN_KEY = "adminToken";
+
+const toFormState = (category?: CategoryOption) => ({
+  key: category?.value || "",
+  label: category?.label || "",
+  description: category?.description || "",
+  subreddits: category?.subreddits.join(", ") || "",
+  defaultTimeframe: category?.defaultTimeframe || "week",
+  defaultMinScore: category?.defaultMinScore ?? 50,
+});
+
+export default function CategoryEditor({
+  categories,
+  selectedKey,
+  timeframes,
+  onSaved,
+  onClose,
+}: CategoryEditorProps) {
+  const [editingKey, setEditingKey] = useState(
+    categories.some((category) => category.value === selectedKey)
+      ? selectedKey!
+      : NEW_CATEGORY
+  );
+  const [form, setForm] = useState(() =>
+    toFormState(categories.find((category) => category.value === selectedKey))
+  );
+  const [adminToken, setAdminToken] = useState(
+    () => sessionStorage.getItem(ADMIN_TOKEN_KEY) || ""
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const isNew = editingKey === NEW_CATEGORY;
+
+  const changeAdminToken = (token: string) => {
+    setAdminToken(token);
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  };
+
+  const selectCategory = (key: string) => {
+    setEditingKey(key);
+    setForm(toFormState(categories.find((category) => category.value === key)));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const input: CategoryInput = {
+      label: form.label.trim() || undefined,
+      description: form.description.trim() || undefined,
+      subreddits: form.subreddits
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean),
+      defaultTimeframe: form.defaultTimeframe,
+      defaultMinScore: form.defaultMinScore,
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = isNew
+        ? await createCategory({ ...input, key: form.key.trim() }, adminToken)
+        : await updateCategory(editingKey, input, adminToken);
+      setEditingKey(saved.value);
+      onSaved(saved.value);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save category");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the "${editingKey}" category?`)) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await deleteCategory(editingKey, adminToken);
+      selectCategory(NEW_CATEGORY);
+      onSaved();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to delete category"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">
+          Manage Categories
+        </h4>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Category
+          </label>
+          <select
+            value={editingKey}
+            onChange={(e) => selectCategory(e.target.value)}
+            className="input-field"
+            disabled={saving}
+          >
+            <option value={NEW_CATEGORY}>+ New category</option>
+            {categories.map((category) => (
+              <option key={category.value} value={category.value}>
+                {category.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isNew && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Key
+            </label>
+            <input
+              type="text"
+              value={form.key}
+              onChange={(e) => setForm({ ...form, key: e.target.value })}
+              placeholder="e.g., devtools"
+              className="input-field"
+              disabled={saving}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Label
+          </label>
+          <input
+            type="text"
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            placeholder="e.g., Developer Tools"
+            className="input-field"
+            disabled={saving}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) =>
+              setForm({ ...form, description: e.target.value })
+            }
+            className="input-field"
+            disabled={saving}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Subreddits
+          </label>
+          <input
+            type="text"
+            value={form.subreddits}
+            onChange={(e) => setForm({ ...form, subreddits: e.target.value })}
+            placeholder="e.g., rust, golang, ExperiencedDevs"
+            className="input-field"
+            disabled={saving}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Default Time Range
+          </label>
+          <select
+            value={form.defaultTimeframe}
+            onChange={(e) =>
+              setForm({ ...form, defaultTimeframe: e.target.value })
+            }
+            className="input-field"
+            disabled={saving}
+          >
+            {timeframes.map((tf) => (
+              <option key={tf.value} value={tf.value}>
+                {tf.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Default Minimum Post Score
+          </label>
+          <input
+            type="number"
+            min="0"
+            value={form.defaultMinScore}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                defaultMinScore: parseInt(e.target.value) || 0,
+              })
+            }
+            className="input-field"
+            disabled={saving}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Admin Token
+          </label>
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(e) => changeAdminToken(e.target.value)}
+            placeholder="ADMIN_TOKEN of the server, needed to save changes"
+            className="input-field"
+            autoComplete="off"
+            disabled={saving}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        {!isNew && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={saving}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Delete</span>
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary flex items-center space-x-1 px-3 py-2 text-sm disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          <span>{isNew ? "Create" : "Save"}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
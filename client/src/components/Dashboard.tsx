@@ -67,6 +67,16 @@ export default function Dashboard({ analysis }: DashboardProps) {
                 <Clock className="h-4 w-4" />
                 <span>Analyzed {format(new Date(data.scrapedAt), "PPp")}</span>
               </div>
+              {data.parsedQuery &&
+                data.parsedQuery.search.toLowerCase() !==
+                  data.query.trim().toLowerCase() && (
+                  <div className="flex items-center space-x-1">
+                    <span className="font-medium">Searched:</span>
+                    <span className="font-mono text-xs">
+                      {data.parsedQuery.search}
+                    </span>
+                  </div>
+                )}
               <div className="flex items-center space-x-1">
                 <span className="font-medium">Category:</span>
                 <span className="capitalize">{data.category}</span>
@@ -75,6 +85,130 @@ export default function Dashboard({ analysis }: DashboardProps) {
                 <span className="font-medium">Timeframe:</span>
                 <span className="capitalize">{data.timeframe}</span>
               </div>
+              {data.sampling && (
+                <div className="flex items-center space-x-1">
+                  <span className="font-medium">Sampling:</span>
+                  <span>
+                    {data.sampling.postLimit} {data.sampling.searchSort} posts,{" "}
+                    {data.sampling.commentLimit} {data.sampling.commentSort}{" "}
+                    comments
+                  </span>
+                </div>
+              )}
+              {data.coverage && (
+                <div
+                  className="flex items-center space-x-1"
+                  title={`${data.coverage.expansionRequests}/${data.coverage.expansionBudget} "load more" requests used`}
+                >
+                  <span className="font-medium">Coverage:</span>
+                  <span>
+                    {data.coverage.fetchedComments.toLocaleString()} of{" "}
+                    {data.coverage.reportedComments.toLocaleString()} comments (
+                    {Math.round(data.coverage.ratio * 100)}%)
+                  </span>
+                </div>
+              )}
+              {data.filtered && (
+                <div
+                  className="flex items-center space-x-1"
+                  title={Object.entries(data.filtered.excluded)
+                    .filter(([, count]) => count > 0)
+                    .map(([reason, count]) => `${reason}: ${count}`)
+                    .join(", ")}
+                >
+                  <span className="font-medium">Filtered:</span>
+                  <span>
+                    {Object.values(data.filtered.excluded)
+                      .reduce((sum, count) => sum + count, 0)
+                      .toLocaleString()}{" "}
+                    of {data.filtered.checked.toLocaleString()} comments
+                  </span>
+                </div>
+              )}
+              {data.languages && data.languages.breakdown.length > 1 && (
+                <div
+                  className="flex items-center space-x-1"
+                  title={data.languages.breakdown
+                    .map(
+                      (language) =>
+                        `${language.code}: ${language.comments}${
+                          language.compound === null
+                            ? " (not scored)"
+                            : `, sentiment ${language.compound.toFixed(2)}`
+                        }`
+                    )
+                    .join("\n")}
+                >
+                  <span className="font-medium">Languages:</span>
+                  <span>
+                    {data.languages.breakdown
+                      .slice(0, 4)
+                      .map(
+                        (language) =>
+                          `${language.code.toUpperCase()} ${language.comments}`
+                      )
+                      .join(" · ")}
+                    {data.languages.unscored > 0 &&
+                      ` (${data.languages.unscored.toLocaleString()} not scored)`}
+                  </span>
+                </div>
+              )}
+              {!!data.emoji?.total && (
+                <div
+                  className="flex items-center space-x-1"
+                  title={`${data.emoji.total.toLocaleString()} emoji and emoticons in ${data.emoji.comments.toLocaleString()} posts and comments`}
+                >
+                  <span className="font-medium">Emoji:</span>
+                  <span>
+                    {Object.entries(data.emoji.counts)
+                      .sort(([, a], [, b]) => b - a)
+                      .slice(0, 5)
+                      .map(([symbol, count]) => `${symbol} ${count}`)
+                      .join(" · ")}
+                  </span>
+                </div>
+              )}
+              {!!data.languageFilter?.length && (
+                <div className="flex items-center space-x-1">
+                  <span className="font-medium">Only:</span>
+                  <span className="uppercase">
+                    {data.languageFilter.join(", ")}
+                  </span>
+                </div>
+              )}
+              {data.preprocessing && (
+                <div className="flex items-center space-x-1">
+                  <span className="font-medium">Preprocessing:</span>
+                  <span>{data.preprocessing.stages.join(" → ")}</span>
+                </div>
+              )}
+              {data.slangVersion && (
+                <div
+                  className="flex items-center space-x-1"
+                  title={data.customSlang
+                    ?.map((entry) => `${entry.term} → ${entry.meaning}`)
+                    .join("\n")}
+                >
+                  <span className="font-medium">Slang:</span>
+                  <span>{data.slangVersion}</span>
+                </div>
+              )}
+              {data.sentimentPolicy?.engine && (
+                <div className="flex items-center space-x-1">
+                  <span className="font-medium">Engine:</span>
+                  <span>{data.sentimentPolicy.engine}</span>
+                </div>
+              )}
+              {data.sentimentPolicy && (
+                <div className="flex items-center space-x-1">
+                  <span className="font-medium">Sarcasm:</span>
+                  <span>
+                    {data.sentimentPolicy.sarcasm === "none"
+                      ? "not adjusted"
+                      : `${data.sentimentPolicy.sarcasm} from ${data.sentimentPolicy.threshold}% confidence`}
+                  </span>
+                </div>
+              )}
               {analysis.cached && (
                 <span className="bg-green-100 text-green-800 px-2 py-1 rounded-full text-xs font-medium">
                   Cached Result
@@ -108,6 +242,16 @@ export default function Dashboard({ analysis }: DashboardProps) {
         </div>
       </div>
 
+      {data.failedSubreddits && data.failedSubreddits.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-lg px-4 py-3">
+          Some subreddits could not be fetched and are missing from these
+          results:{" "}
+          {data.failedSubreddits
+            .map((failure) => `r/${failure.subreddit}`)
+            .join(", ")}
+        </div>
+      )}
+
       {/* Navigation Tabs */}
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8">
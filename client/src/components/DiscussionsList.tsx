@@ -24,6 +24,107 @@ interface CommentItemProps {
   depth?: number;
 }
 
+const formatSigned = (value: number) =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+/**
+ * The adjusted compound score, with how far slang and sarcasm moved it from
+ * VADER's score of the text as written
+ */
+function SentimentScore({ sentiment }: { sentiment: SentimentAnalysis }) {
+  const { adjustment } = sentiment;
+  return (
+    <>
+      {sentiment.overall.compound.toFixed(2)}
+      {adjustment && Math.abs(adjustment.total) >= 0.01 && (
+        <span
+          className="ml-1 opacity-75"
+          title={`VADER ${sentiment.original.compound.toFixed(
+            2
+          )}, slang ${formatSigned(adjustment.slang)}, sarcasm ${formatSigned(
+            adjustment.sarcasm
+          )}`}
+        >
+          Δ{formatSigned(adjustment.total)}
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Small markers for pinned, controversial, edited, awarded, sarcastic and
+ * non-English comments
+ */
+function CommentFlags({ comment }: { comment: RedditComment }) {
+  const awards = Object.values(comment.gildings || {}).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+
+  return (
+    <div className="flex items-center space-x-2 text-xs text-gray-500">
+      {comment.stickied && <span title="Pinned by moderators">📌</span>}
+      {comment.controversiality === 1 && (
+        <span className="text-red-500" title="Controversial">
+          †
+        </span>
+      )}
+      {comment.edited && (
+        <span
+          title={`Edited ${format(parseISO(comment.edited), "MMM d, yyyy")}`}
+        >
+          edited
+        </span>
+      )}
+      {awards > 0 && <span title="Awards">🏅 {awards}</span>}
+      {comment.sarcasm?.isSarcastic && (
+        <span
+          title={`Sarcastic (${comment.sarcasm.confidence}% confidence${
+            comment.sarcasm.features
+              ? `: ${comment.sarcasm.features.join(", ")}`
+              : ""
+          })`}
+        >
+          sarcastic
+        </span>
+      )}
+      {comment.subreddit && (
+        <span title="From a crosspost">r/{comment.subreddit}</span>
+      )}
+      {comment.copies && comment.copies.length > 0 && (
+        <span
+          title={`Also posted in ${[
+            ...new Set(comment.copies.map((copy) => `r/${copy.subreddit}`)),
+          ].join(", ")}`}
+        >
+          ×{comment.copies.length + 1} copies
+        </span>
+      )}
+      {comment.language &&
+        !["en", "und"].includes(comment.language.code) && (
+          <span
+            className="uppercase"
+            title="Not English, left out of the sentiment averages"
+          >
+            {comment.language.code}
+          </span>
+        )}
+      {comment.permalink && (
+        <a
+          href={comment.permalink}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 hover:text-blue-800"
+          title="View on Reddit"
+        >
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+    </div>
+  );
+}
+
 function CommentItem({ comment, depth = 0 }: CommentItemProps) {
   const [isExpanded, setIsExpanded] = useState(depth < 2);
   const hasReplies = comment.replies && comment.replies.length > 0;
@@ -56,6 +157,9 @@ function CommentItem({ comment, depth = 0 }: CommentItemProps) {
     }
   };
 
+  // The analysed text leaves out quotes and code, show what was written
+  const displayText = comment.plainText || comment.text;
+
   return (
     <div
       className={`${depth > 0 ? "ml-4 border-l-2 border-gray-200 pl-4" : ""}`}
@@ -70,6 +174,23 @@ function CommentItem({ comment, depth = 0 }: CommentItemProps) {
                 <span className="text-sm text-gray-600 font-medium">
                   {comment.author}
                 </span>
+                {comment.isSubmitter && (
+                  <span className="px-1.5 rounded text-xs font-semibold bg-blue-100 text-blue-700">
+                    OP
+                  </span>
+                )}
+                {comment.distinguished && (
+                  <span className="px-1.5 rounded text-xs font-semibold bg-green-100 text-green-700">
+                    {comment.distinguished === "moderator"
+                      ? "MOD"
+                      : comment.distinguished.toUpperCase()}
+                  </span>
+                )}
+                {comment.authorFlair && (
+                  <span className="px-1.5 rounded text-xs bg-gray-100 text-gray-600 max-w-[12rem] truncate">
+                    {comment.authorFlair}
+                  </span>
+                )}
               </div>
             )}
             {comment.timestamp && (
@@ -86,6 +207,7 @@ function CommentItem({ comment, depth = 0 }: CommentItemProps) {
                 {comment.score} upvotes
               </span>
             </div>
+            <CommentFlags comment={comment} />
           </div>
 
           {comment.sentiment && (
@@ -98,22 +220,22 @@ function CommentItem({ comment, depth = 0 }: CommentItemProps) {
                 {getSentimentIcon(comment.sentiment)}
               </span>
               {comment.sentiment.label} (
-              {comment.sentiment.overall.compound.toFixed(2)})
+              <SentimentScore sentiment={comment.sentiment} />)
             </div>
           )}
         </div>
 
         {/* Comment Text */}
-        <div className="text-gray-800 text-sm mb-3 leading-relaxed">
-          {comment.text.length > 300 ? (
+        <div className="text-gray-800 text-sm mb-3 leading-relaxed whitespace-pre-line">
+          {displayText.length > 300 ? (
             <>
-              {comment.text.slice(0, 300)}...
+              {displayText.slice(0, 300)}...
               <button className="text-blue-600 hover:text-blue-800 ml-1">
                 read more
               </button>
             </>
           ) : (
-            comment.text
+            displayText
           )}
         </div>
 
@@ -181,6 +303,8 @@ export default function DiscussionsList({ discussions }: DiscussionsListProps) {
   const [sortBy, setSortBy] = useState<"timestamp" | "score" | "comments">(
     "timestamp" // Default to sorting by timestamp since it's now available
   );
+  // Show post and community response sentiment separately
+  const [splitSentiment, setSplitSentiment] = useState(false);
 
   const sortedDiscussions = [...discussions].sort((a, b) => {
     switch (sortBy) {
@@ -221,6 +345,15 @@ export default function DiscussionsList({ discussions }: DiscussionsListProps) {
         </h3>
 
         <div className="flex items-center space-x-2">
+          <label className="flex items-center space-x-1 text-sm text-gray-600 mr-2">
+            <input
+              type="checkbox"
+              checked={splitSentiment}
+              onChange={(e) => setSplitSentiment(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Split post / response sentiment</span>
+          </label>
           <label className="text-sm text-gray-600">Sort by:</label>
           <select
             value={sortBy}
@@ -251,6 +384,72 @@ export default function DiscussionsList({ discussions }: DiscussionsListProps) {
                     {discussion.title}
                   </h4>
 
+                  {(discussion.linkFlair ||
+                    discussion.nsfw ||
+                    discussion.spoiler ||
+                    discussion.crosspostParent ||
+                    !!discussion.copies?.length ||
+                    discussion.queryMatch?.looselyRelated) && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {discussion.linkFlair && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                          {discussion.linkFlair}
+                        </span>
+                      )}
+                      {discussion.nsfw && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                          NSFW
+                        </span>
+                      )}
+                      {discussion.spoiler && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-800 text-white">
+                          Spoiler
+                        </span>
+                      )}
+                      {discussion.crosspostParent && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-700">
+                          Crosspost
+                        </span>
+                      )}
+                      {discussion.queryMatch?.looselyRelated && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800"
+                          title="Neither the post nor its comments mention the query"
+                        >
+                          Loosely related
+                        </span>
+                      )}
+                      {discussion.copies && discussion.copies.length > 0 && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700"
+                          title={discussion.copies
+                            .map(
+                              (copy) =>
+                                `r/${copy.subreddit}${
+                                  copy.crosspost ? " (crosspost)" : ""
+                                }`
+                            )
+                            .join(", ")}
+                        >
+                          Also in{" "}
+                          {[
+                            ...new Set(
+                              discussion.copies.map(
+                                (copy) => `r/${copy.subreddit}`
+                              )
+                            ),
+                          ].join(", ")}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {discussion.content && (
+                    <p className="text-sm text-gray-700 mb-2 line-clamp-3 whitespace-pre-line">
+                      {discussion.content}
+                    </p>
+                  )}
+
                   <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
                     <div className="flex items-center space-x-1">
                       <span className="font-medium">
@@ -274,7 +473,13 @@ export default function DiscussionsList({ discussions }: DiscussionsListProps) {
                     </div>
                     <div className="flex items-center space-x-1">
                       <ThumbsUp className="h-4 w-4" />
-                      <span>{discussion.score} score</span>
+                      <span>
+                        {discussion.score} score
+                        {discussion.upvoteRatio !== undefined &&
+                          ` (${Math.round(
+                            discussion.upvoteRatio * 100
+                          )}% upvoted)`}
+                      </span>
                     </div>
                     <a
                       href={discussion.url}
@@ -288,15 +493,44 @@ export default function DiscussionsList({ discussions }: DiscussionsListProps) {
                   </div>
                 </div>
 
-                {discussion.sentiment && (
-                  <div
-                    className={`px-3 py-1 rounded-full text-sm font-medium border ${getSentimentColor(
-                      discussion.sentiment
-                    )}`}
-                  >
-                    {discussion.sentiment.label} (
-                    {discussion.sentiment.overall.compound.toFixed(2)})
+                {splitSentiment &&
+                (discussion.postSentiment || discussion.responseSentiment) ? (
+                  <div className="flex flex-col items-end gap-1">
+                    {discussion.postSentiment && (
+                      <div
+                        className={`px-3 py-1 rounded-full text-sm font-medium border ${getSentimentColor(
+                          discussion.postSentiment
+                        )}`}
+                      >
+                        Post: {discussion.postSentiment.label} (
+                        <SentimentScore sentiment={discussion.postSentiment} />)
+                      </div>
+                    )}
+                    {discussion.responseSentiment && (
+                      <div
+                        className={`px-3 py-1 rounded-full text-sm font-medium border ${getSentimentColor(
+                          discussion.responseSentiment
+                        )}`}
+                      >
+                        Responses: {discussion.responseSentiment.label} (
+                        <SentimentScore
+                          sentiment={discussion.responseSentiment}
+                        />
+                        )
+                      </div>
+                    )}
                   </div>
+                ) : (
+                  discussion.sentiment && (
+                    <div
+                      className={`px-3 py-1 rounded-full text-sm font-medium border ${getSentimentColor(
+                        discussion.sentiment
+                      )}`}
+                    >
+                      {discussion.sentiment.label} (
+                      <SentimentScore sentiment={discussion.sentiment} />)
+                    </div>
+                  )
                 )}
               </div>
 
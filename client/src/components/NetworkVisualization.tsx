@@ -142,7 +142,7 @@ export default function NetworkVisualization({
           const commentSentiments = discussion.comments
             .filter((c) => c.sentiment)
             .map((c) => ({
-              sentiment: c.sentiment!.original.compound,
+              sentiment: c.sentiment!.overall.compound,
               score: c.score,
             }));
 
@@ -160,7 +160,7 @@ export default function NetworkVisualization({
             .map((c) => ({
               comment: c,
               sentimentImpact:
-                Math.abs(c.sentiment!.original.compound) * c.score,
+                Math.abs(c.sentiment!.overall.compound) * c.score,
             }))
             .sort((a, b) => b.sentimentImpact - a.sentimentImpact)
             .slice(0, 5);
@@ -187,7 +187,7 @@ export default function NetworkVisualization({
             subreddit: subredditName,
             discussion,
             commentCount: discussion.commentCount,
-            averageSentiment: discussion.sentiment?.original.compound || 0,
+            averageSentiment: discussion.sentiment?.overall.compound || 0,
             weightedSentiment,
             topComments,
           };
@@ -235,7 +235,7 @@ export default function NetworkVisualization({
         .filter((c) => c.sentiment)
         .map((c) => ({
           comment: c,
-          sentimentImpact: Math.abs(c.sentiment!.original.compound) * c.score,
+          sentimentImpact: Math.abs(c.sentiment!.overall.compound) * c.score,
         }))
         .sort((a, b) => b.sentimentImpact - a.sentimentImpact)
         .slice(0, 5);
@@ -270,7 +270,7 @@ export default function NetworkVisualization({
             label: comment.text.slice(0, 50) + "...",
             type: "comment",
             comment,
-            sentimentScore: comment.sentiment?.original.compound || 0,
+            sentimentScore: comment.sentiment?.overall.compound || 0,
             parentId,
           };
           nodes.push(commentNode);
@@ -956,11 +956,11 @@ export default function NetworkVisualization({
                               <span>{item.comment.score}</span>
                               <span
                                 className={getSentimentColor(
-                                  item.comment.sentiment?.original.compound || 0
+                                  item.comment.sentiment?.overall.compound || 0
                                 )}
                               >
                                 (
-                                {item.comment.sentiment?.original.compound.toFixed(
+                                {item.comment.sentiment?.overall.compound.toFixed(
                                   2
                                 )}
                                 )
@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { Compass, X } from "lucide-react";
+import type { DiscoveryResult } from "../types/analysis";
+import { discoverSubreddits } from "../services/api";
+
+interface SubredditDiscoveryProps {
+  query: string;
+  timeframe?: string;
+  onUse: (subreddits: string[]) => void; // Analyze the selected subreddits
+  onClose: () => void;
+}
+
+// Candidates preselected from the top of the ranking
+const PRESELECTED = 5;
+
+export default function SubredditDiscovery({
+  query,
+  timeframe,
+  onUse,
+  onClose,
+}: SubredditDiscoveryProps) {
+  const [result, setResult] = useState<DiscoveryResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const discover = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await discoverSubreddits(query, timeframe);
+        setResult(data);
+        setSelected(
+          new Set(
+            data.candidates
+              .filter((candidate) => candidate.postCount > 0)
+              .slice(0, PRESELECTED)
+              .map((candidate) => candidate.name)
+          )
+        );
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to discover subreddits"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    discover();
+  }, [query, timeframe]);
+
+  const toggle = (name: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center space-x-2">
+          <Compass className="h-4 w-4" />
+          <span>Where is "{query}" being discussed?</span>
+        </h4>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {loading && (
+        <div className="animate-pulse space-y-2">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-8 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && !loading && (
+        <>
+          <p className="text-xs text-gray-500">
+            Ranked by matching posts and their engagement across{" "}
+            {result.postsScanned} posts from the past {result.timeframe}
+          </p>
+
+          {result.candidates.length === 0 ? (
+            <p className="text-sm text-gray-600">No subreddits found.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-200">
+              {result.candidates.map((candidate) => (
+                <label
+                  key={candidate.name}
+                  className="flex items-start space-x-3 py-2 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(candidate.name)}
+                    onChange={() => toggle(candidate.name)}
+                    className="mt-1 rounded border-gray-300"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <span className="font-medium text-gray-900">
+                        r/{candidate.name}
+                      </span>
+                      {candidate.matchedByName && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700">
+                          name match
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {candidate.postCount} posts · {candidate.totalScore}{" "}
+                      upvotes · {candidate.totalComments} comments
+                      {candidate.subscribers !== undefined &&
+                        ` · ${candidate.subscribers.toLocaleString()} members`}
+                    </div>
+                    {candidate.topPosts[0] && (
+                      <a
+                        href={candidate.topPosts[0].url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block text-xs text-blue-600 hover:text-blue-800 truncate"
+                      >
+                        {candidate.topPosts[0].title}
+                      </a>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() =>
+                onUse(
+                  result.candidates
+                    .filter((candidate) => selected.has(candidate.name))
+                    .map((candidate) => candidate.name)
+                )
+              }
+              disabled={selected.size === 0}
+              className="btn-primary px-3 py-2 text-sm disabled:opacity-50"
+            >
+              Analyze selected ({selected.size})
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
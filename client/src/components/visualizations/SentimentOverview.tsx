@@ -40,9 +40,9 @@ export default function SentimentOverview({
   const avgSentiment = data.discussions.reduce((acc, discussion) => {
     const comments = discussion.comments || [];
     const commentsWithSentiment = comments
-      .filter((c) => c.sentiment && c.sentiment.original.compound !== 0)
+      .filter((c) => c.sentiment && c.sentiment.overall.compound !== 0)
       .map((c) => ({
-        sentiment: c.sentiment!.original.compound,
+        sentiment: c.sentiment!.overall.compound,
         score: c.score,
       }));
 
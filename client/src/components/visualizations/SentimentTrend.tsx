@@ -25,7 +25,7 @@ export default function SentimentTrend({ analysis }: SentimentTrendProps) {
         .filter((comment) => comment.sentiment && comment.timestamp)
         .map((comment) => ({
           timestamp: comment.timestamp!,
-          sentiment: comment.sentiment!.original.compound,
+          sentiment: comment.sentiment!.overall.compound,
           score: comment.score,
           discussion: discussion.title.slice(0, 30) + "...",
         }))
@@ -3,6 +3,11 @@ import type {
   AnalysisRequest,
   AnalysisResult,
   AnalysisJob,
+  CategoryInput,
+  CategoryOption,
+  DiscoveryResult,
+  PreprocessingOptions,
+  SentimentEngineOptions,
 } from "../types/analysis";
 
 // Configure axios defaults
@@ -40,7 +45,14 @@ api.interceptors.response.use(
   (error) => {
     console.error("API Response Error:", error.response?.data || error.message);
 
-    if (error.response?.status === 429) {
+    if (
+      [400, 401, 403, 404, 409, 501].includes(error.response?.status) &&
+      error.response.data?.error
+    ) {
+      // Validation, admin token, lookup and unsupported-feature errors from
+      // the server
+      throw new Error(error.response.data.error);
+    } else if (error.response?.status === 429) {
       throw new Error("Too many requests. Please wait a moment and try again.");
     } else if (error.response?.status >= 500) {
       throw new Error("Server error. Please try again later.");
@@ -78,11 +90,7 @@ export async function testAPI(): Promise<{
  */
 export async function getCategories(): Promise<{
   success: boolean;
-  data: Array<{
-    value: string;
-    label: string;
-    subreddits: string[];
-  }>;
+  data: CategoryOption[];
 }> {
   try {
     const response = await api.get("/api/categories");
@@ -93,6 +101,84 @@ export async function getCategories(): Promise<{
   }
 }
 
+/**
+ * Get the available preprocessing stages and the default pipeline
+ */
+export async function getPreprocessingOptions(): Promise<PreprocessingOptions> {
+  const response = await api.get("/api/preprocessing");
+  return response.data.data;
+}
+
+/**
+ * Get the available sentiment engines and the default one
+ */
+export async function getSentimentEngineOptions(): Promise<SentimentEngineOptions> {
+  const response = await api.get("/api/sentiment/engines");
+  return response.data.data;
+}
+
+// Category edits need the server's ADMIN_TOKEN
+const asAdmin = (adminToken: string) => ({
+  headers: { Authorization: `Bearer ${adminToken}` },
+});
+
+/**
+ * Create a category
+ */
+export async function createCategory(
+  category: CategoryInput,
+  adminToken: string
+): Promise<CategoryOption> {
+  const response = await api.post(
+    "/api/categories",
+    category,
+    asAdmin(adminToken)
+  );
+  return response.data.data;
+}
+
+/**
+ * Update a category's settings
+ */
+export async function updateCategory(
+  key: string,
+  category: CategoryInput,
+  adminToken: string
+): Promise<CategoryOption> {
+  const response = await api.put(
+    `/api/categories/${encodeURIComponent(key)}`,
+    category,
+    asAdmin(adminToken)
+  );
+  return response.data.data;
+}
+
+/**
+ * Delete a category
+ */
+export async function deleteCategory(
+  key: string,
+  adminToken: string
+): Promise<void> {
+  await api.delete(
+    `/api/categories/${encodeURIComponent(key)}`,
+    asAdmin(adminToken)
+  );
+}
+
+/**
+ * Rank subreddits where a query is being discussed
+ */
+export async function discoverSubreddits(
+  query: string,
+  timeframe: string = "month"
+): Promise<DiscoveryResult> {
+  const response = await api.get("/api/discover", {
+    params: { query, timeframe },
+  });
+  return response.data.data;
+}
+
 /**
  * Start a new Reddit sentiment analysis
  */
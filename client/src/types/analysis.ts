@@ -12,6 +12,14 @@ export interface SentimentAnalysis {
     compound: number;
   };
   label: "positive" | "negative" | "neutral";
+  // Change of the compound score from original to overall, by cause
+  adjustment?: { slang: number; sarcasm: number; total: number };
+}
+
+export interface SentimentPolicy {
+  engine: string; // Sentiment engine that scored the text
+  sarcasm: "none" | "dampen" | "invert";
+  threshold: number; // Sarcasm confidence (0-100) from which it applies
 }
 
 export interface Entity {
@@ -47,18 +55,48 @@ export interface RedditComment {
   replies: RedditComment[];
   sentiment?: SentimentAnalysis;
   entities?: Entity[];
-  depth?: number;
+  depth?: number; // Reply level, 0 for root comments
+  authorFlair?: string;
+  controversiality?: number; // 1 when Reddit marks the comment controversial
+  edited?: string; // Time of the last edit
+  distinguished?: string; // "moderator" or "admin"
+  stickied?: boolean;
+  isSubmitter?: boolean; // Written by the post's author (OP)
+  gildings?: Record<string, number>; // Awards by gilding type
+  permalink?: string;
+  subreddit?: string; // Set on comments merged in from a crosspost
+  copies?: Array<{ subreddit: string; id: string; author: string }>; // Collapsed copypasta
+  language?: { code: string; confidence: number }; // "und" when undetermined
+  plainText?: string; // Comment as written without markdown, quotes included
+  emoji?: Record<string, number>; // Emoji and emoticons used, by symbol
+  sarcasm?: { isSarcastic: boolean; confidence: number; features?: string[] };
 }
 
 export interface Discussion {
   id?: string;
   title: string;
   url: string;
+  content?: string; // Post self-text
   timestamp?: string;
   subreddit: string;
   score: number;
+  numComments?: number;
+  author?: string;
+  upvoteRatio?: number; // Share of votes that are upvotes, 0-1
+  linkFlair?: string;
+  crosspostParent?: string; // Fullname (t3_...) of the original post
+  nsfw?: boolean;
+  spoiler?: boolean;
+  copies?: Array<{ subreddit: string; id: string; crosspost: boolean }>; // Merged duplicates
+  queryMatch?: {
+    post: boolean; // Title or self-text matches the query
+    matchingComments: number;
+    looselyRelated: boolean; // Neither the post nor any comment matches
+  };
   comments: RedditComment[];
-  sentiment?: SentimentAnalysis;
+  sentiment?: SentimentAnalysis; // Post and responses combined
+  postSentiment?: SentimentAnalysis; // Title and self-text only
+  responseSentiment?: SentimentAnalysis; // Top-level comments only
   entities?: Entity[];
   commentCount: number;
   weightedSentiment?: number | null; // Score-weighted average sentiment, can be null
@@ -135,16 +173,76 @@ export interface NetworkData {
   centerNode: QueryNode;
 }
 
+export interface CommentCoverage {
+  fetchedComments: number;
+  reportedComments: number;
+  ratio: number;
+  expansionRequests: number;
+  expansionBudget: number;
+}
+
+export interface SamplingOptions {
+  searchSort: string; // relevance, hot, top, new or comments
+  postLimit: number; // Posts per subreddit
+  commentSort: string; // confidence, top, new, controversial, old or qa
+  commentLimit: number; // Comments per post
+}
+
+export interface ContentFilterStats {
+  checked: number; // Comments inspected, including replies
+  excluded: Record<string, number>; // knownBot, botPattern, deleted, ...
+  clearedPostBodies: number; // Deleted or removed post bodies dropped
+}
+
+export interface LanguageStats {
+  breakdown: Array<{
+    code: string; // ISO 639-1, "und" when undetermined
+    comments: number; // Comments and posts in the language
+    scored: boolean; // Counted in the sentiment averages
+    compound: number | null; // Average sentiment, null when not scored
+  }>;
+  unscored: number; // Comments and posts left out of the sentiment averages
+}
+
+export interface EmojiStats {
+  total: number; // Emoji and emoticons in posts and comments
+  comments: number; // Posts and comments using at least one
+  counts: Record<string, number>; // Uses per emoji or emoticon
+}
+
+export interface SlangEntry {
+  term: string;
+  meaning: string;
+  context?: string[]; // Phrases, one of which the text must contain
+}
+
 export interface AnalysisData {
   id: string;
   category: string;
   query: string;
+  parsedQuery?: { search: string; expanded: boolean }; // As sent to Reddit
   timeframe: string;
   minPostScore: number;
+  sampling?: SamplingOptions; // Missing on analyses saved before it was recorded
   totalComments: number;
   totalDiscussions: number;
   scrapedAt: string;
   createdAt: string;
+  coverage?: CommentCoverage; // Comments fetched vs. reported by Reddit
+  filtered?: ContentFilterStats; // Comments excluded before analysis
+  deduplicated?: {
+    duplicateDiscussions: number; // Same post fetched from several subreddits
+    mergedCrossposts: number;
+    collapsedComments: number; // Copypasta collapsed into the first copy
+  };
+  languageFilter?: string[]; // Languages comments were limited to, empty for all
+  languages?: LanguageStats; // Comments and sentiment per detected language
+  emoji?: EmojiStats; // Missing on analyses saved before emoji were counted
+  preprocessing?: { stages: string[] }; // Missing on analyses saved before it
+  slangVersion?: string; // Slang lexicons used, e.g. "global@3+finance@1"
+  customSlang?: SlangEntry[]; // Slang entries given with the request
+  sentimentPolicy?: SentimentPolicy; // Engine and sarcasm handling used
+  failedSubreddits?: Array<{ subreddit: string; error: string }>;
   discussions: Discussion[];
   subreddits?: string[]; // Make optional since it's not in the response format
   networkData?: NetworkData; // Make optional since it's not in the response format
@@ -182,13 +280,78 @@ export interface AnalysisJob {
 }
 
 export interface AnalysisRequest {
-  category: string;
+  category: string; // "custom" when only explicit subreddits are given
   query: string;
+  subreddits?: string[]; // Explicit list, replaces the category's subreddits
+  include?: string[]; // Added to the category's subreddits
+  exclude?: string[]; // Removed from the category's subreddits
   timeframe?: string;
   minPostScore?: number;
+  searchSort?: string;
+  postLimit?: number;
+  commentSort?: string;
+  commentLimit?: number;
+  expandSynonyms?: boolean; // Search known synonyms of the query terms too
+  languages?: string[]; // Keep only comments in these languages, empty for all
+  preprocessing?: string[]; // Preprocessing stages in order, the default when missing
+  slang?: Record<string, string>; // Extra slang terms and their meanings
+  sentimentPolicy?: Partial<SentimentPolicy>; // The server's default when missing
   includeEntities?: boolean;
 }
 
+export interface CategoryOption {
+  value: string; // Category key
+  label: string;
+  description?: string;
+  subreddits: string[];
+  defaultTimeframe?: string;
+  defaultMinScore?: number;
+}
+
+export interface PreprocessingOptions {
+  stages: Array<{ name: string; description: string }>;
+  default: string[]; // Stages used when a request does not list any
+}
+
+export interface SentimentEngineOptions {
+  engines: Array<{ name: string; description: string }>;
+  default: string; // Engine used when a request does not choose one
+}
+
+export interface CategoryInput {
+  key?: string; // Required when creating, fixed afterwards
+  label?: string;
+  description?: string;
+  subreddits: string[];
+  defaultTimeframe?: string;
+  defaultMinScore?: number;
+}
+
+export interface SubredditCandidate {
+  name: string;
+  postCount: number;
+  totalScore: number;
+  totalComments: number;
+  rank: number;
+  matchedByName: boolean; // Subreddit name or description matches the query
+  subscribers?: number;
+  description?: string;
+  nsfw: boolean;
+  topPosts: Array<{
+    title: string;
+    url: string;
+    score: number;
+    numComments: number;
+  }>;
+}
+
+export interface DiscoveryResult {
+  query: string;
+  timeframe: string;
+  postsScanned: number;
+  candidates: SubredditCandidate[];
+}
+
 // Visualization states
 export interface ViewState {
   mode: "overview" | "topic-expanded";
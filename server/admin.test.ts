@@ -0,0 +1,55 @@
+/**
+ * Admin Token Tests
+ *
+ * Category and slang lexicon edits need ADMIN_TOKEN as a bearer token and
+ * are disabled when it is not set. Requests are turned away before the
+ * database is used.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { mockStorage } from "./mock-storage";
+
+mockStorage();
+
+const { app } = await import("./server");
+
+const EDITS = [
+  { method: "POST", path: "/api/categories" },
+  { method: "PUT", path: "/api/categories/technology" },
+  { method: "DELETE", path: "/api/categories/technology" },
+  { method: "PUT", path: "/api/slang/global" },
+  { method: "PATCH", path: "/api/slang/global" },
+];
+
+const send = (method: string, path: string, token?: string) =>
+  app.request(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: method === "DELETE" ? undefined : JSON.stringify({}),
+  });
+
+afterEach(() => {
+  delete process.env.ADMIN_TOKEN;
+});
+
+describe("admin edits", () => {
+  test.each(EDITS)("$method $path is disabled without ADMIN_TOKEN", async ({
+    method,
+    path,
+  }) => {
+    const response = await send(method, path, "anything");
+    expect(response.status).toBe(403);
+  });
+
+  test.each(EDITS)("$method $path needs the admin token", async ({
+    method,
+    path,
+  }) => {
+    process.env.ADMIN_TOKEN = "secret";
+    expect((await send(method, path)).status).toBe(401);
+    expect((await send(method, path, "wrong")).status).toBe(401);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Reddit Archive Importer
+ *
+ * This module handles:
+ * - Streaming Pushshift NDJSON dumps, plain or zstd-compressed (.zst)
+ * - Filtering submissions by subreddit, structured query and date range
+ * - Rebuilding full comment trees from parent_id links
+ * - Producing RedditData per subreddit for the regular analysis pipeline
+ */
+
+import fs from "fs";
+import readline from "readline";
+import { Transform } from "stream";
+import { Decompress } from "fzstd";
+import type { Discussion, RedditComment, RedditData } from "./types/reddit";
+import type {
+  ArchiveComment,
+  ArchiveImportOptions,
+  ArchiveImportStats,
+  ArchiveSubmission,
+} from "./types/archive";
+import { buildRedditData } from "./datasource";
+import { DEFAULT_SAMPLING } from "./sampling";
+import { buildCommentTree } from "./threads";
+import { readCommentMetadata, readPostMetadata } from "./metadata";
+import { createQueryMatcher } from "./query";
+
+/**
+ * Wrap the fzstd streaming decompressor in a Node transform stream
+ */
+function createZstdStream(): Transform {
+  let decompressor: Decompress;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        decompressor.push(new Uint8Array(chunk));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        decompressor.push(new Uint8Array(0), true);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+
+  decompressor = new Decompress((data) => {
+    stream.push(Buffer.from(data));
+  });
+
+  return stream;
+}
+
+/**
+ * Yield parsed JSON records from an NDJSON file, decompressing .zst on the fly
+ */
+async function* readRecords(
+  file: string,
+  stats: ArchiveImportStats
+): AsyncGenerator<any> {
+  const fileStream = fs.createReadStream(file);
+  const input = file.endsWith(".zst")
+    ? fileStream.pipe(createZstdStream())
+    : fileStream;
+
+  fileStream.on("error", (error) => input.destroy(error));
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    stats.linesRead++;
+
+    try {
+      yield JSON.parse(line);
+    } catch {
+      stats.invalidLines++;
+    }
+  }
+}
+
+function toIsoTimestamp(createdUtc: number | string): string {
+  return new Date(Number(createdUtc) * 1000).toISOString();
+}
+
+function isSubmission(record: any): record is ArchiveSubmission {
+  return typeof record.title === "string" && record.link_id === undefined;
+}
+
+function isComment(record: any): record is ArchiveComment {
+  return typeof record.body === "string" && typeof record.parent_id === "string";
+}
+
+function toRedditComment(
+  comment: ArchiveComment,
+  submissionAuthor?: string
+): RedditComment {
+  const submissionId = comment.link_id.replace(/^t3_/, "");
+  return {
+    id: comment.id,
+    text: comment.body,
+    body: comment.body,
+    processed: "",
+    normalizedTokens: [],
+    score: comment.score,
+    author: comment.author || "[deleted]",
+    timestamp: toIsoTimestamp(comment.created_utc),
+    parentId: comment.parent_id,
+    replies: [],
+    ...readCommentMetadata({
+      ...comment,
+      permalink:
+        comment.permalink || `/comments/${submissionId}/_/${comment.id}/`,
+      is_submitter:
+        comment.is_submitter ??
+        (submissionAuthor !== undefined &&
+          submissionAuthor !== "[deleted]" &&
+          comment.author === submissionAuthor),
+    }),
+  };
+}
+
+/**
+ * Link comments of a single submission into a full-depth tree via parent_id
+ */
+function buildDiscussionComments(
+  comments: ArchiveComment[],
+  submission: ArchiveSubmission,
+  stats: ArchiveImportStats
+): RedditComment[] {
+  const ordered = [...comments].sort(
+    (a, b) => Number(a.created_utc) - Number(b.created_utc)
+  );
+  const { roots, stats: treeStats } = buildCommentTree(
+    ordered.map((comment) => toRedditComment(comment, submission.author)),
+    { maxDepth: Infinity, maxNodes: Infinity }
+  );
+  stats.orphanedComments += treeStats.orphaned;
+  return roots;
+}
+
+function describeRange(after?: Date, before?: Date): string {
+  if (!after && !before) return "all";
+  const format = (date?: Date) =>
+    date ? date.toISOString().split("T")[0] : "";
+  return `${format(after)}..${format(before)}`;
+}
+
+/**
+ * Stream archive files and rebuild discussions for the requested subreddits
+ */
+export async function importArchive(
+  options: ArchiveImportOptions
+): Promise<{ data: RedditData[]; stats: ArchiveImportStats }> {
+  const stats: ArchiveImportStats = {
+    linesRead: 0,
+    invalidLines: 0,
+    submissionsMatched: 0,
+    commentsMatched: 0,
+    orphanedComments: 0,
+  };
+
+  const subreddits = new Map(
+    options.subreddits.map((name) => [name.toLowerCase(), name])
+  );
+  const matchesQuery = createQueryMatcher(options.query);
+  const afterSeconds = options.after ? options.after.getTime() / 1000 : -Infinity;
+  const beforeSeconds = options.before
+    ? options.before.getTime() / 1000
+    : Infinity;
+  const minPostScore = options.minPostScore ?? 0;
+
+  const inRange = (record: { created_utc: number | string }) => {
+    const createdUtc = Number(record.created_utc);
+    return createdUtc >= afterSeconds && createdUtc < beforeSeconds;
+  };
+  const inSubreddits = (record: any) =>
+    !!record.subreddit && subreddits.has(record.subreddit.toLowerCase());
+
+  // Comments may come before their submission, even in another file, so
+  // find the matching submissions first and only keep their comments on a
+  // second pass over the files that hold comments
+  const submissions = new Map<string, ArchiveSubmission>();
+  const commentFiles = new Set<string>();
+
+  for (const file of options.files) {
+    console.log(`📂 Reading submissions from archive ${file}...`);
+
+    for await (const record of readRecords(file, stats)) {
+      if (!inSubreddits(record)) continue;
+
+      if (isSubmission(record)) {
+        if (
+          inRange(record) &&
+          record.score >= minPostScore &&
+          matchesQuery(`${record.title}\n${record.selftext || ""}`)
+        ) {
+          submissions.set(record.id, record);
+        }
+      } else if (isComment(record)) {
+        commentFiles.add(file);
+      }
+    }
+  }
+
+  const commentsBySubmission = new Map<string, ArchiveComment[]>();
+  // Lines were counted on the first pass
+  const rereadStats: ArchiveImportStats = { ...stats };
+  for (const file of commentFiles) {
+    if (submissions.size === 0) break;
+    console.log(`📂 Reading comments from archive ${file}...`);
+
+    for await (const record of readRecords(file, rereadStats)) {
+      if (!isComment(record) || !inSubreddits(record) || !inRange(record)) {
+        continue;
+      }
+      const submissionId = record.link_id.replace(/^t3_/, "");
+      if (!submissions.has(submissionId)) continue;
+
+      if (!commentsBySubmission.has(submissionId)) {
+        commentsBySubmission.set(submissionId, []);
+      }
+      commentsBySubmission.get(submissionId)!.push(record);
+      stats.commentsMatched++;
+    }
+  }
+  stats.submissionsMatched = submissions.size;
+
+  const discussionsBySubreddit = new Map<string, Discussion[]>();
+  for (const submission of submissions.values()) {
+    const subreddit = subreddits.get(submission.subreddit.toLowerCase())!;
+    if (!discussionsBySubreddit.has(subreddit)) {
+      discussionsBySubreddit.set(subreddit, []);
+    }
+
+    discussionsBySubreddit.get(subreddit)!.push({
+      id: submission.id,
+      title: submission.title,
+      url: submission.permalink
+        ? `https://www.reddit.com${submission.permalink}`
+        : submission.url || "",
+      content: submission.selftext || undefined,
+      timestamp: toIsoTimestamp(submission.created_utc),
+      score: submission.score,
+      numComments: submission.num_comments,
+      comments: buildDiscussionComments(
+        commentsBySubmission.get(submission.id) || [],
+        submission,
+        stats
+      ),
+      ...readPostMetadata(submission),
+    });
+  }
+
+  const data: RedditData[] = [];
+  for (const [subreddit, discussions] of discussionsBySubreddit) {
+    discussions.sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+
+    const redditData = buildRedditData(
+      {
+        subreddit,
+        query: options.query.text,
+        parsedQuery: options.query,
+        category: options.category,
+        timeframe: "all",
+        minPostScore,
+        // Archives hold every matching post, newest first
+        sampling: {
+          ...DEFAULT_SAMPLING,
+          searchSort: "new",
+          postLimit: discussions.length,
+        },
+      },
+      discussions
+    );
+    redditData.metadata.timeframe = describeRange(options.after, options.before);
+    data.push(redditData);
+  }
+
+  console.log(
+    `📊 Archive import: ${stats.submissionsMatched} submissions, ${stats.commentsMatched} comments from ${stats.linesRead} lines (${stats.invalidLines} invalid, ${stats.orphanedComments} orphaned)`
+  );
+
+  return { data, stats };
+}
@@ -0,0 +1,247 @@
+/**
+ * Reddit Cassettes
+ *
+ * This module handles:
+ * - Recording every Reddit HTTP exchange (token, search, comment listings)
+ *   to a cassette file
+ * - Replaying recorded exchanges without network access or credentials
+ * - Keeping access tokens, credentials and cookies out of cassettes
+ *
+ * Cassettes are JSON Lines, one request and its response per line, so an
+ * interrupted recording still replays up to where it stopped. Requests are
+ * matched on method, URL with sorted query parameters, and body; identical
+ * requests are answered in the order they were recorded.
+ */
+
+import fs from "fs-extra";
+import path from "path";
+
+export type CassetteMode = "record" | "replay";
+
+export const CASSETTE_MODES: CassetteMode[] = ["record", "replay"];
+
+const DEFAULT_CASSETTE_PATH = "./cassettes/reddit.jsonl";
+
+// Stands in for the access token in recorded token responses
+export const CASSETTE_TOKEN = "cassette-token";
+
+// Response headers worth keeping: rate limits and backoff hints
+const RECORDED_HEADERS = [
+  "content-type",
+  "retry-after",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-used",
+];
+
+export interface CassetteRequest {
+  method: string;
+  url: string; // Absolute, query parameters sorted
+  body?: string; // Form body, URL-encoded
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any; // Parsed JSON, or text when the response was not JSON
+}
+
+interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+const requestKey = (request: CassetteRequest) =>
+  `${request.method} ${request.url}${request.body ? ` ${request.body}` : ""}`;
+
+/**
+ * A failed response replayed from a cassette, or a request the cassette
+ * has no response for. Carries status, headers and request where the retry
+ * policy and snoowrap look for them on axios and request errors.
+ */
+export class CassetteError extends Error {
+  statusCode?: number;
+  response: Partial<CassetteResponse> & {
+    statusCode?: number;
+    data?: any;
+    request: { method: string; uri: { href: string } };
+  };
+
+  constructor(request: CassetteRequest, response?: CassetteResponse) {
+    super(
+      response
+        ? `${response.status} from ${request.method} ${request.url}`
+        : `No recorded response for ${requestKey(request)}`
+    );
+    this.name = "CassetteError";
+    this.statusCode = response?.status;
+    this.response = {
+      ...response,
+      statusCode: response?.status,
+      data: response?.body,
+      request: { method: request.method, uri: { href: request.url } },
+    };
+  }
+}
+
+/**
+ * Build a cassette request with its query parameters in a stable order
+ */
+export function toCassetteRequest(
+  method: string,
+  url: string,
+  query: Record<string, unknown> = {},
+  form?: Record<string, unknown>
+): CassetteRequest {
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) target.searchParams.set(key, String(value));
+  }
+  target.searchParams.sort();
+
+  const body = form
+    ? new URLSearchParams(
+        Object.entries(form)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, String(value)])
+          .sort(([a], [b]) => a.localeCompare(b))
+      ).toString()
+    : undefined;
+
+  return {
+    method: method.toUpperCase(),
+    url: target.toString(),
+    ...(body ? { body } : {}),
+  };
+}
+
+/**
+ * Read status, headers and body from an axios or request response
+ */
+function toCassetteResponse(response: any): CassetteResponse {
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers?.[name];
+    if (value !== undefined) headers[name] = String(value);
+  }
+
+  const body = response.data ?? response.body;
+  return {
+    status: response.status ?? response.statusCode,
+    headers,
+    body:
+      body && typeof body === "object" && "access_token" in body
+        ? { ...body, access_token: CASSETTE_TOKEN }
+        : body,
+  };
+}
+
+export class Cassette {
+  private recorded = new Map<string, CassetteResponse[]>();
+
+  constructor(readonly mode: CassetteMode, readonly file: string) {
+    if (mode === "record") {
+      fs.ensureDirSync(path.dirname(file));
+      fs.writeFileSync(file, "");
+      console.log(`📼 Recording Reddit requests to ${file}`);
+      return;
+    }
+
+    if (!fs.pathExistsSync(file)) {
+      throw new Error(`Cassette ${file} does not exist`);
+    }
+    const interactions: CassetteInteraction[] = fs
+      .readFileSync(file, "utf8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+    for (const { request, response } of interactions) {
+      const key = requestKey(request);
+      if (!this.recorded.has(key)) this.recorded.set(key, []);
+      this.recorded.get(key)!.push(response);
+    }
+    console.log(
+      `📼 Replaying ${interactions.length} Reddit requests from ${file}`
+    );
+  }
+
+  /**
+   * Send a request through the cassette: recorded when recording, answered
+   * from the file when replaying. Failed responses are recorded too and
+   * replayed as a CassetteError.
+   */
+  async exchange(
+    request: CassetteRequest,
+    send: () => Promise<any>
+  ): Promise<CassetteResponse> {
+    if (this.mode === "replay") {
+      const response = this.replay(request);
+      if (response.status >= 400) {
+        throw new CassetteError(request, response);
+      }
+      return response;
+    }
+
+    try {
+      const response = toCassetteResponse(await send());
+      this.record(request, response);
+      return response;
+    } catch (error: any) {
+      if (error?.response) {
+        this.record(request, toCassetteResponse(error.response));
+      }
+      throw error;
+    }
+  }
+
+  private record(request: CassetteRequest, response: CassetteResponse) {
+    fs.appendFileSync(this.file, JSON.stringify({ request, response }) + "\n");
+  }
+
+  /**
+   * The next recorded response for a request. The last one is repeated
+   * once all have been used.
+   */
+  private replay(request: CassetteRequest): CassetteResponse {
+    const responses = this.recorded.get(requestKey(request));
+    if (!responses || responses.length === 0) {
+      throw new CassetteError(request);
+    }
+    return responses.length > 1 ? responses.shift()! : responses[0];
+  }
+}
+
+let activeCassette: Cassette | null | undefined;
+
+/**
+ * Switch recording or replaying on (or off with null) for later requests
+ */
+export function useCassette(
+  mode: CassetteMode | null,
+  file: string = DEFAULT_CASSETTE_PATH
+): Cassette | null {
+  if (mode && !CASSETTE_MODES.includes(mode)) {
+    throw new Error(
+      `Invalid cassette mode "${mode}". Choose from: ${CASSETTE_MODES.join(
+        ", "
+      )}`
+    );
+  }
+  activeCassette = mode ? new Cassette(mode, file) : null;
+  return activeCassette;
+}
+
+/**
+ * The active cassette, set up from REDDIT_CASSETTE_MODE and
+ * REDDIT_CASSETTE on first use
+ */
+export function getCassette(): Cassette | null {
+  if (activeCassette === undefined) {
+    const mode = process.env.REDDIT_CASSETTE_MODE;
+    useCassette(
+      mode && mode !== "off" ? (mode as CassetteMode) : null,
+      process.env.REDDIT_CASSETTE || DEFAULT_CASSETTE_PATH
+    );
+  }
+  return activeCassette ?? null;
+}
@@ -0,0 +1,282 @@
+/**
+ * Category Management
+ *
+ * This module handles:
+ * - The built-in categories, used as seed data for the database
+ * - Validating category definitions from the API
+ * - Loading categories, seeding the database once
+ */
+
+import type { CategoryDefinition, CategoryMap } from "./types/categories";
+import {
+  CUSTOM_CATEGORY,
+  MAX_SUBREDDITS,
+  isValidSubredditName,
+  normalizeSubredditName,
+} from "./subreddits";
+import { getCategories, seedCategories } from "./storage";
+import { TIME_FILTERS } from "./datasource";
+
+// Lowercase letters, digits, "-" and "_", used in URLs and requests
+const CATEGORY_KEY = /^[a-z0-9][a-z0-9_-]{1,31}$/;
+
+const seed = (
+  key: string,
+  description: string,
+  subreddits: string[]
+): CategoryDefinition => ({
+  key,
+  label: key.charAt(0).toUpperCase() + key.slice(1),
+  description,
+  subreddits,
+  defaultTimeframe: "week",
+  defaultMinScore: 50,
+});
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  seed("technology", "Tech news, AI and software development", [
+    "technology",
+    "Futurology",
+    "OpenAI",
+    "artificial",
+    "MachineLearning",
+    "programming",
+    "coding",
+    "webdev",
+    "devops",
+    "cybersecurity",
+  ]),
+  seed("science", "Research and the natural sciences", [
+    "science",
+    "Physics",
+    "Space",
+    "chemistry",
+    "biology",
+    "math",
+    "astronomy",
+    "neuroscience",
+    "geology",
+    "environment",
+  ]),
+  seed("politics", "Politics and world news", [
+    "politics",
+    "worldnews",
+    "geopolitics",
+    "europe",
+    "news",
+    "politicaldiscussion",
+    "conservative",
+    "liberal",
+    "democrats",
+    "republicans",
+  ]),
+  seed("finance", "Markets, investing and crypto", [
+    "finance",
+    "cryptocurrency",
+    "stocks",
+    "investing",
+    "personalfinance",
+    "wallstreetbets",
+    "economics",
+    "bitcoin",
+    "ethereum",
+    "trading",
+  ]),
+  seed("gaming", "Games, platforms and the games industry", [
+    "gaming",
+    "pcgaming",
+    "gamedev",
+    "PS5",
+    "XboxSeriesX",
+    "NintendoSwitch",
+    "Steam",
+    "indiegaming",
+    "esports",
+    "gamingnews",
+  ]),
+  seed("health", "Medicine, fitness and wellbeing", [
+    "health",
+    "medicine",
+    "Fitness",
+    "nutrition",
+    "mentalhealth",
+    "yoga",
+    "weightlifting",
+    "running",
+    "diet",
+    "wellness",
+  ]),
+  seed("entertainment", "Film, TV, music and books", [
+    "movies",
+    "television",
+    "music",
+    "books",
+    "comics",
+    "anime",
+    "netflix",
+    "marvel",
+    "starwars",
+    "gaming",
+  ]),
+  seed("sports", "Major leagues and sports", [
+    "sports",
+    "nba",
+    "nfl",
+    "soccer",
+    "baseball",
+    "hockey",
+    "tennis",
+    "formula1",
+    "golf",
+    "cricket",
+  ]),
+  seed("education", "Schools, universities and learning", [
+    "education",
+    "college",
+    "university",
+    "teaching",
+    "learnprogramming",
+    "math",
+    "science",
+    "history",
+    "philosophy",
+    "literature",
+  ]),
+  seed("lifestyle", "Food, travel, fashion and hobbies", [
+    "food",
+    "travel",
+    "fashion",
+    "beauty",
+    "home",
+    "gardening",
+    "cooking",
+    "photography",
+    "art",
+    "design",
+  ]),
+  seed("business", "Startups, careers and management", [
+    "business",
+    "entrepreneur",
+    "startups",
+    "marketing",
+    "sales",
+    "smallbusiness",
+    "consulting",
+    "management",
+    "careers",
+    "jobs",
+  ]),
+  seed("social", "Social media, privacy and the internet", [
+    "socialmedia",
+    "privacy",
+    "technology",
+    "internet",
+    "webdev",
+    "programming",
+    "cybersecurity",
+    "datahoarder",
+    "netsec",
+    "hacking",
+  ]),
+];
+
+/**
+ * Validate a category from an API request, filling in defaults. Pass the
+ * stored category to validate a partial update against it.
+ * Throws with a user-facing message when the definition is invalid.
+ */
+export function validateCategory(
+  input: any,
+  existing?: CategoryDefinition
+): CategoryDefinition {
+  if (!input || typeof input !== "object") {
+    throw new Error("Category must be an object");
+  }
+
+  const key = existing ? existing.key : String(input.key || "").trim();
+  if (!CATEGORY_KEY.test(key) || key === CUSTOM_CATEGORY) {
+    throw new Error(
+      `Invalid category key "${key}". Use 2-32 lowercase letters, digits, "-" or "_" (not "${CUSTOM_CATEGORY}")`
+    );
+  }
+
+  const subredditsInput = input.subreddits ?? existing?.subreddits;
+  if (
+    !Array.isArray(subredditsInput) ||
+    subredditsInput.some((name) => typeof name !== "string")
+  ) {
+    throw new Error('"subreddits" must be a list of subreddit names');
+  }
+  const subreddits = subredditsInput
+    .map(normalizeSubredditName)
+    .filter(
+      (name, index, names) =>
+        name &&
+        names.findIndex(
+          (other) => other.toLowerCase() === name.toLowerCase()
+        ) === index
+    );
+  const invalid = subreddits.filter((name) => !isValidSubredditName(name));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid subreddit name(s): ${invalid.join(", ")}`);
+  }
+  if (subreddits.length === 0 || subreddits.length > MAX_SUBREDDITS) {
+    throw new Error(
+      `A category needs between 1 and ${MAX_SUBREDDITS} subreddits`
+    );
+  }
+
+  const defaultTimeframe =
+    input.defaultTimeframe ?? existing?.defaultTimeframe ?? "week";
+  if (!TIME_FILTERS.includes(defaultTimeframe)) {
+    throw new Error(
+      `Invalid default timeframe. Choose from: ${TIME_FILTERS.join(", ")}`
+    );
+  }
+
+  const defaultMinScore = Number(
+    input.defaultMinScore ?? existing?.defaultMinScore ?? 50
+  );
+  if (!Number.isInteger(defaultMinScore) || defaultMinScore < 0) {
+    throw new Error("Default minimum score must be a non-negative integer");
+  }
+
+  const label = String(input.label ?? existing?.label ?? "").trim();
+  const description = input.description ?? existing?.description;
+
+  return {
+    key,
+    label: label || key.charAt(0).toUpperCase() + key.slice(1),
+    description: description ? String(description).trim() : undefined,
+    subreddits,
+    defaultTimeframe,
+    defaultMinScore,
+  };
+}
+
+/**
+ * Load all categories, seeding the built-in ones the first time the
+ * database is empty. Deleting every category later leaves none.
+ * Falls back to the built-in categories when the database is unavailable.
+ */
+export async function loadCategories(): Promise<CategoryDefinition[]> {
+  try {
+    const stored = await getCategories();
+    if (stored.length > 0) return stored;
+
+    await seedCategories(DEFAULT_CATEGORIES);
+    return await getCategories();
+  } catch (error) {
+    console.warn(
+      "⚠️ Failed to load categories from the database, using built-in categories:",
+      error
+    );
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+export function toCategoryMap(categories: CategoryDefinition[]): CategoryMap {
+  return Object.fromEntries(
+    categories.map((category) => [category.key, category.subreddits])
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Shared Reddit API Client
+ *
+ * This module handles:
+ * - Application-only OAuth tokens, cached until shortly before they expire
+ * - Throttling from Reddit's X-Ratelimit-Remaining / X-Ratelimit-Reset headers
+ * - Retrying 429 and 5xx responses with jittered exponential backoff
+ * - A single snoowrap instance reused across analyses
+ * - Recording and replaying requests through the active cassette
+ */
+
+import snoowrap from "snoowrap";
+import axios from "axios";
+import dotenv from "dotenv";
+import { getCassette, toCassetteRequest, type Cassette } from "./cassette";
+
+dotenv.config();
+
+const CLIENT_ID = process.env.CLIENT_ID!;
+const CLIENT_SECRET = process.env.CLIENT_SECRET!;
+const USER_AGENT = process.env.USER_AGENT!;
+
+const TOKEN_URL = "https://www.reddit.com/api/v1/access_token";
+const TOKEN_FORM = { grant_type: "client_credentials" };
+
+// Refresh tokens this long before Reddit says they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+// Keep a few requests of the window in reserve for retries
+const RATELIMIT_RESERVE = 5;
+// Below this many remaining requests, pace instead of bursting
+const RATELIMIT_LOW_WATERMARK = 30;
+
+const MAX_RETRIES = parseInt(process.env.REDDIT_MAX_RETRIES || "4", 10);
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+export interface RateLimitState {
+  remaining: number | null; // Requests left in the current window
+  resetAt: number | null; // Epoch ms when the window resets
+  used: number | null;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // Epoch ms
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Tracks Reddit's rate-limit window and spaces requests so it is never
+ * exhausted before the reset
+ */
+export class RateLimiter {
+  private state: RateLimitState = { remaining: null, resetAt: null, used: null };
+  private nextSlot = 0;
+
+  getState(): RateLimitState {
+    return { ...this.state };
+  }
+
+  /**
+   * Wait until the next request may be sent
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const { remaining, resetAt } = this.state;
+    let delay = 0;
+
+    if (remaining !== null && resetAt !== null && resetAt > now) {
+      if (remaining <= RATELIMIT_RESERVE) {
+        // Window nearly spent, wait for the reset
+        delay = resetAt - now;
+      } else if (remaining < RATELIMIT_LOW_WATERMARK) {
+        // Running low, spread what is left over the rest of the window
+        delay = (resetAt - now) / (remaining - RATELIMIT_RESERVE);
+      }
+    }
+
+    const start = Math.max(now, this.nextSlot) + delay;
+    this.nextSlot = start;
+    if (remaining !== null && remaining > 0) {
+      this.state.remaining = remaining - 1;
+    }
+
+    if (start > now) {
+      await sleep(start - now);
+    }
+  }
+
+  /**
+   * Update the window from response headers
+   */
+  update(headers: Record<string, any> | undefined): void {
+    if (!headers) return;
+
+    const remaining = headers["x-ratelimit-remaining"];
+    const reset = headers["x-ratelimit-reset"];
+    const used = headers["x-ratelimit-used"];
+
+    if (remaining !== undefined) {
+      this.state.remaining = Math.floor(Number(remaining));
+    }
+    if (reset !== undefined) {
+      this.state.resetAt = Date.now() + Number(reset) * 1000;
+    }
+    if (used !== undefined) {
+      this.state.used = Number(used);
+    }
+  }
+}
+
+function getStatusCode(error: any): number | undefined {
+  return error?.statusCode ?? error?.response?.status ?? error?.response?.statusCode;
+}
+
+function isRetryable(error: any): boolean {
+  const status = getStatusCode(error);
+  if (status === undefined) {
+    // Network failures (reset connections, timeouts) carry no status code
+    return ["ECONNRESET", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN"].includes(
+      error?.code ?? error?.cause?.code
+    );
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Backoff before the given retry: Retry-After when Reddit sends it,
+ * otherwise exponential with full jitter
+ */
+function getBackoffDelay(error: any, attempt: number): number {
+  const retryAfter = Number(error?.response?.headers?.["retry-after"]);
+  if (retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Run a request, retrying 429, 5xx and network errors with backoff
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  description: string
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(error, attempt);
+      console.warn(
+        `⏳ ${description} failed with ${
+          getStatusCode(error) ?? "a network error"
+        }, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+let cachedToken: CachedToken | null = null;
+let pendingToken: Promise<CachedToken> | null = null;
+
+async function requestAccessToken(): Promise<CachedToken> {
+  const sendTokenRequest = () =>
+    axios.post(TOKEN_URL, new URLSearchParams(TOKEN_FORM), {
+      auth: {
+        username: CLIENT_ID,
+        password: CLIENT_SECRET,
+      },
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+    });
+
+  const cassette = getCassette();
+  const data = await withRetry(
+    async () =>
+      cassette
+        ? (
+            await cassette.exchange(
+              toCassetteRequest("POST", TOKEN_URL, {}, TOKEN_FORM),
+              sendTokenRequest
+            )
+          ).body
+        : (await sendTokenRequest()).data,
+    "Access token request"
+  );
+
+  const expiresIn = Number(data.expires_in) || 3600;
+  console.log(`🔑 Obtained Reddit access token (expires in ${expiresIn}s)`);
+
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + expiresIn * 1000,
+  };
+}
+
+/**
+ * Return a cached access token, requesting a new one only when it is
+ * missing or about to expire
+ */
+export async function getAccessToken(): Promise<string> {
+  if (
+    cachedToken &&
+    cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()
+  ) {
+    return cachedToken.accessToken;
+  }
+
+  // Concurrent callers share one token request
+  if (!pendingToken) {
+    pendingToken = requestAccessToken().finally(() => {
+      pendingToken = null;
+    });
+  }
+
+  try {
+    cachedToken = await pendingToken;
+    return cachedToken.accessToken;
+  } catch (error: any) {
+    console.error(
+      "❌ Failed to get access token:",
+      getStatusCode(error) ?? error.message
+    );
+    throw new Error("Failed to get access token");
+  }
+}
+
+const rateLimiter = new RateLimiter();
+
+/**
+ * snoowrap with every API call routed through the shared token cache,
+ * rate limiter and retry policy
+ */
+class RateLimitedSnoowrap extends snoowrap {
+  async rawRequest(options: any): Promise<any> {
+    return withRetry(async () => {
+      await rateLimiter.acquire();
+
+      const token = await getAccessToken();
+      const requestOptions = {
+        ...options,
+        auth: options.auth?.bearer ? { bearer: token } : options.auth,
+      };
+
+      // Replayed rate limits are stale, replays run unthrottled
+      const cassette = getCassette();
+      const throttled = cassette?.mode !== "replay";
+
+      try {
+        const response = cassette
+          ? await this.exchange(cassette, requestOptions)
+          : await super.rawRequest(requestOptions);
+        if (throttled) rateLimiter.update(response?.headers);
+        return response;
+      } catch (error: any) {
+        if (throttled) rateLimiter.update(error?.response?.headers);
+        throw error;
+      }
+    }, `Reddit request ${options.uri || ""}`.trim());
+  }
+
+  /**
+   * Send a request through the cassette and hand snoowrap the response
+   * request-promise would have resolved with
+   */
+  private async exchange(cassette: Cassette, options: any): Promise<any> {
+    const method = (options.method || "GET").toUpperCase();
+    const url = options.baseUrl
+      ? `${options.baseUrl.replace(/\/$/, "")}/${options.uri.replace(
+          /^\//,
+          ""
+        )}`
+      : options.uri;
+    const request = toCassetteRequest(method, url, options.qs, options.form);
+
+    const recorded = await cassette.exchange(request, () =>
+      super.rawRequest({
+        ...options,
+        transform: undefined,
+        resolveWithFullResponse: true,
+      })
+    );
+
+    const response = {
+      statusCode: recorded.status,
+      headers: recorded.headers,
+      body: recorded.body,
+      request: { method, uri: { href: request.url } },
+    };
+    if (typeof options.transform === "function") {
+      return options.transform(response.body, response);
+    }
+    return options.resolveWithFullResponse ? response : response.body;
+  }
+}
+
+let client: RateLimitedSnoowrap | null = null;
+
+/**
+ * Return the shared snoowrap client, creating it on first use
+ */
+export async function getRedditClient(): Promise<snoowrap> {
+  const accessToken = await getAccessToken();
+
+  if (!client) {
+    client = new RateLimitedSnoowrap({
+      // Replays need no credentials, but snoowrap insists on a user agent
+      userAgent: USER_AGENT || "cassette-replay",
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      accessToken,
+    });
+    // Retries and throttling happen in rawRequest
+    client.config({
+      retryErrorCodes: [],
+      continueAfterRatelimitError: true,
+      warnings: false,
+    });
+  }
+
+  client.accessToken = accessToken;
+  return client;
+}
+
+export function getRateLimitState(): RateLimitState {
+  return rateLimiter.getState();
+}
@@ -0,0 +1,349 @@
+/**
+ * Offline Data Sources
+ *
+ * This module handles:
+ * - Building RedditData envelopes shared by every data source
+ * - Tracking the per-analysis API budget for loading collapsed comments
+ * - Reporting comment coverage (fetched vs. reported by Reddit)
+ * - Fixture source: reads discussions from a directory of JSON files
+ * - Memory source: serves discussions registered in-process
+ * - Reading the data source configuration from the environment
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import type {
+  CommentCoverage,
+  Discussion,
+  RedditData,
+} from "./types/reddit";
+import type {
+  DataSource,
+  DataSourceConfig,
+  DataSourceRequest,
+  DataSourceType,
+  TimeFilter,
+} from "./types/datasource";
+import { countComments, DEFAULT_COMMENT_TREE_OPTIONS } from "./threads";
+import {
+  DEFAULT_COMMENT_CONCURRENCY,
+  DEFAULT_SUBREDDIT_CONCURRENCY,
+} from "./scheduler";
+import { compareDiscussions } from "./sampling";
+
+const DATA_SOURCE_TYPES: DataSourceType[] = ["reddit", "fixture", "memory"];
+
+export const TIME_FILTERS: TimeFilter[] = [
+  "hour",
+  "day",
+  "week",
+  "month",
+  "year",
+  "all",
+];
+
+export const DEFAULT_EXPANSION_BUDGET = 20;
+
+/**
+ * Counts API calls spent on "load more comments" across one analysis
+ */
+export class RequestBudget {
+  used = 0;
+
+  constructor(readonly limit: number) {}
+
+  get remaining(): number {
+    return Math.max(0, this.limit - this.used);
+  }
+
+  /**
+   * Reserve calls from the budget, returning false once it is exhausted
+   */
+  tryConsume(count: number = 1): boolean {
+    if (this.used + count > this.limit) return false;
+    this.used += count;
+    return true;
+  }
+}
+
+/**
+ * Wrap fetched discussions in a RedditData envelope with metadata
+ */
+export function buildRedditData(
+  request: DataSourceRequest,
+  discussions: Discussion[],
+  scrapedAt: string = new Date().toISOString()
+): RedditData {
+  return {
+    subreddit: request.subreddit,
+    query: request.query,
+    category: request.category,
+    metadata: {
+      query: request.query,
+      parsedQuery: request.parsedQuery,
+      timeframe: request.timeframe,
+      minScore: request.minPostScore,
+      sampling: request.sampling,
+      languageFilter: request.languageFilter,
+      preprocessing: request.preprocessing,
+      customSlang: request.customSlang,
+      sentimentPolicy: request.sentimentPolicy,
+      totalComments: discussions.reduce(
+        (sum, discussion) => sum + countComments(discussion.comments),
+        0
+      ),
+      totalDiscussions: discussions.length,
+      scrapedAt,
+    },
+    discussions,
+  };
+}
+
+/**
+ * Recount comments after expansion and record coverage in the metadata
+ */
+export function summarizeCoverage(
+  data: RedditData,
+  budget?: RequestBudget
+): CommentCoverage {
+  const fetchedComments = data.discussions.reduce(
+    (sum, discussion) => sum + countComments(discussion.comments),
+    0
+  );
+  const reportedComments = data.discussions.reduce(
+    (sum, discussion) =>
+      sum + (discussion.numComments ?? countComments(discussion.comments)),
+    0
+  );
+
+  const coverage: CommentCoverage = {
+    fetchedComments,
+    reportedComments,
+    ratio: reportedComments > 0 ? fetchedComments / reportedComments : 1,
+    expansionRequests: budget?.used ?? 0,
+    expansionBudget: budget?.limit ?? 0,
+  };
+
+  data.metadata.totalComments = fetchedComments;
+  data.metadata.coverage = coverage;
+  return coverage;
+}
+
+/**
+ * Combine per-subreddit coverage into one analysis-wide figure
+ */
+export function mergeCoverage(dataList: RedditData[]): CommentCoverage {
+  const fetchedComments = dataList.reduce(
+    (sum, data) => sum + (data.metadata.coverage?.fetchedComments ?? 0),
+    0
+  );
+  const reportedComments = dataList.reduce(
+    (sum, data) => sum + (data.metadata.coverage?.reportedComments ?? 0),
+    0
+  );
+  // The expansion budget is shared, so every subreddit reports the same usage
+  const budgeted = dataList.find((data) => data.metadata.coverage);
+
+  return {
+    fetchedComments,
+    reportedComments,
+    ratio: reportedComments > 0 ? fetchedComments / reportedComments : 1,
+    expansionRequests: budgeted?.metadata.coverage?.expansionRequests ?? 0,
+    expansionBudget: budgeted?.metadata.coverage?.expansionBudget ?? 0,
+  };
+}
+
+/**
+ * Apply the post score threshold, search sort and post limit the way the
+ * Reddit source does
+ */
+function selectDiscussions(
+  discussions: Discussion[],
+  request: DataSourceRequest
+): Discussion[] {
+  return discussions
+    .filter((discussion) => discussion.score >= request.minPostScore)
+    .sort(compareDiscussions(request.sampling.searchSort))
+    .slice(0, request.sampling.postLimit);
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+/**
+ * Reads discussions from `<dir>/<query>/<subreddit>.json`, falling back to
+ * `<dir>/<subreddit>.json`. A file holds either a saved RedditData object or
+ * a plain array of discussions. The timeframe is ignored so fixtures stay
+ * deterministic regardless of when they were recorded.
+ */
+export class FixtureDataSource implements DataSource {
+  name = "fixture";
+
+  constructor(private fixtureDir: string) {}
+
+  async fetch(request: DataSourceRequest): Promise<RedditData | null> {
+    const file = await this.resolveFixture(request);
+    if (!file) {
+      console.log(
+        `⚠ No fixture found for r/${request.subreddit} in ${this.fixtureDir}`
+      );
+      return null;
+    }
+
+    const contents = await fs.readJson(file);
+    const discussions: Discussion[] = Array.isArray(contents)
+      ? contents
+      : contents.discussions || [];
+    const scrapedAt = Array.isArray(contents)
+      ? undefined
+      : contents.metadata?.scrapedAt;
+
+    return buildRedditData(
+      request,
+      selectDiscussions(discussions, request),
+      scrapedAt
+    );
+  }
+
+  private async resolveFixture(
+    request: DataSourceRequest
+  ): Promise<string | null> {
+    const names = [...new Set([request.subreddit, request.subreddit.toLowerCase()])];
+    const dirs = [
+      path.join(this.fixtureDir, slugify(request.query)),
+      this.fixtureDir,
+    ];
+
+    for (const dir of dirs) {
+      for (const name of names) {
+        const candidate = path.join(dir, `${name}.json`);
+        if (await fs.pathExists(candidate)) {
+          return candidate;
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Serves discussions registered in-process, keyed by subreddit name
+ */
+export class MemoryDataSource implements DataSource {
+  name = "memory";
+  private discussions = new Map<string, Discussion[]>();
+
+  constructor(seed: Record<string, Discussion[]> = {}) {
+    for (const [subreddit, discussions] of Object.entries(seed)) {
+      this.add(subreddit, discussions);
+    }
+  }
+
+  /**
+   * Register discussions for a subreddit, appending to any already present
+   */
+  add(subreddit: string, discussions: Discussion[]): void {
+    const key = subreddit.toLowerCase();
+    this.discussions.set(key, [
+      ...(this.discussions.get(key) || []),
+      ...discussions,
+    ]);
+  }
+
+  clear(): void {
+    this.discussions.clear();
+  }
+
+  async fetch(request: DataSourceRequest): Promise<RedditData | null> {
+    const discussions = this.discussions.get(request.subreddit.toLowerCase());
+    if (!discussions) return null;
+
+    // Hand out copies, the analysis pipeline mutates discussions in place
+    return buildRedditData(
+      request,
+      structuredClone(selectDiscussions(discussions, request))
+    );
+  }
+}
+
+/**
+ * Read a whole-number setting from the environment, `fallback` when unset.
+ * Throws when it is not a whole number of at least `min`.
+ */
+export function readIntegerSetting(
+  name: string,
+  fallback: number,
+  min: number
+): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error(
+      `Invalid ${name} "${value}": must be a whole number of at least ${min}`
+    );
+  }
+  return number;
+}
+
+/**
+ * Read the data source configuration from DATA_SOURCE, FIXTURE_DIR,
+ * COMMENT_MAX_DEPTH, COMMENT_MAX_NODES, MORE_COMMENTS_BUDGET,
+ * SUBREDDIT_CONCURRENCY and COMMENT_CONCURRENCY. Throws on invalid values.
+ */
+export function getDataSourceConfig(
+  overrides: Partial<DataSourceConfig> = {}
+): DataSourceConfig {
+  const type = (overrides.type ||
+    process.env.DATA_SOURCE ||
+    "reddit") as DataSourceType;
+
+  if (!DATA_SOURCE_TYPES.includes(type)) {
+    throw new Error(
+      `Invalid data source "${type}". Choose from: ${DATA_SOURCE_TYPES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return {
+    type,
+    fixtureDir: overrides.fixtureDir || process.env.FIXTURE_DIR || "./fixtures",
+    seed: overrides.seed,
+    commentTree: overrides.commentTree || {
+      // Depth 0 keeps only top-level comments
+      maxDepth: readIntegerSetting(
+        "COMMENT_MAX_DEPTH",
+        DEFAULT_COMMENT_TREE_OPTIONS.maxDepth,
+        0
+      ),
+      maxNodes: readIntegerSetting(
+        "COMMENT_MAX_NODES",
+        DEFAULT_COMMENT_TREE_OPTIONS.maxNodes,
+        1
+      ),
+    },
+    expansionBudget:
+      overrides.expansionBudget ??
+      readIntegerSetting("MORE_COMMENTS_BUDGET", DEFAULT_EXPANSION_BUDGET, 0),
+    concurrency: overrides.concurrency || {
+      subreddits: readIntegerSetting(
+        "SUBREDDIT_CONCURRENCY",
+        DEFAULT_SUBREDDIT_CONCURRENCY,
+        1
+      ),
+      comments: readIntegerSetting(
+        "COMMENT_CONCURRENCY",
+        DEFAULT_COMMENT_CONCURRENCY,
+        1
+      ),
+    },
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Cross-Subreddit De-duplication
+ *
+ * This module handles:
+ * - Merging discussions fetched from several subreddits by post id
+ * - Merging crossposts into the first copy of the original post
+ * - Collapsing near-identical comments (copypasta) into their first copy
+ * - Keeping where every merged copy came from
+ *
+ * Subreddits are merged in the order given, so the first subreddit of a
+ * category keeps a duplicated post. Discussions that lost comments are
+ * analysed again so their sentiment no longer counts the duplicates, and
+ * comment totals and coverage are adjusted the same way.
+ */
+
+import type {
+  CommentCopy,
+  Discussion,
+  DiscussionCopy,
+  RedditComment,
+  RedditData,
+} from "./types/reddit";
+import type { DeduplicationStats } from "./types/dedup";
+import { countComments, flattenCommentTree } from "./threads";
+import { analyzeRedditData } from "./sentiment";
+
+// Shorter comments ("this", "same here") are ordinary agreement, not copypasta
+export const COPYPASTA_MIN_LENGTH = 40;
+
+/**
+ * Crossposts share the key of their original post
+ */
+function postKey(discussion: Discussion): string {
+  return discussion.crosspostParent?.replace(/^t3_/, "") || discussion.id;
+}
+
+/**
+ * Comment text without case, links, punctuation and spacing, or null when
+ * it is too short to count as copypasta
+ */
+function copypastaKey(comment: RedditComment): string | null {
+  const normalized = (comment.body ?? comment.text ?? "")
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  return normalized.length >= COPYPASTA_MIN_LENGTH ? normalized : null;
+}
+
+function addCopies<T extends { subreddit: string; id: string }>(
+  existing: T[] = [],
+  added: T[]
+): T[] {
+  const seen = new Set(existing.map((copy) => `${copy.subreddit}:${copy.id}`));
+  return [
+    ...existing,
+    ...added.filter((copy) => !seen.has(`${copy.subreddit}:${copy.id}`)),
+  ];
+}
+
+function withSubreddit(
+  comment: RedditComment,
+  subreddit: string
+): RedditComment {
+  return {
+    ...comment,
+    subreddit: comment.subreddit || subreddit,
+    replies: (comment.replies || []).map((reply) =>
+      withSubreddit(reply, subreddit)
+    ),
+  };
+}
+
+/**
+ * Comments Reddit reports for a discussion, as coverage counts them
+ */
+function reportedComments(discussion: Discussion): number {
+  return discussion.numComments ?? countComments(discussion.comments);
+}
+
+/**
+ * Add comments to (or with negative counts remove them from) a subreddit's
+ * total and coverage, so merged comments are not counted twice
+ */
+function addComments(data: RedditData, fetched: number, reported: number) {
+  data.metadata.totalComments += fetched;
+  const coverage = data.metadata.coverage;
+  if (!coverage) return;
+
+  coverage.fetchedComments += fetched;
+  coverage.reportedComments += reported;
+  coverage.ratio =
+    coverage.reportedComments > 0
+      ? coverage.fetchedComments / coverage.reportedComments
+      : 1;
+}
+
+/**
+ * Append a crosspost's comments to the kept discussion, skipping comments
+ * it already holds
+ */
+function mergeCrosspostComments(
+  kept: Discussion,
+  crosspost: Discussion,
+  subreddit: string
+): number {
+  const ids = new Set(flattenCommentTree(kept.comments).map((c) => c.id));
+  const added = crosspost.comments
+    .filter((comment) => !ids.has(comment.id))
+    .map((comment) => withSubreddit(comment, subreddit));
+  kept.comments.push(...added);
+  return countComments(added);
+}
+
+/**
+ * Drop copypasta at every depth, keeping replies to a dropped copy
+ */
+function collapseComments(
+  comments: RedditComment[],
+  subreddit: string,
+  discussionId: string,
+  firstCopies: Map<string, RedditComment>,
+  stats: DeduplicationStats
+): RedditComment[] {
+  return comments.flatMap((comment) => {
+    const key = copypastaKey(comment);
+    const first = key ? firstCopies.get(key) : undefined;
+    const replies = () =>
+      collapseComments(
+        comment.replies || [],
+        subreddit,
+        discussionId,
+        firstCopies,
+        stats
+      );
+
+    if (!key || !first || first.id === comment.id) {
+      if (key && !first) firstCopies.set(key, comment);
+      comment.replies = replies();
+      return [comment];
+    }
+
+    const copy: CommentCopy = {
+      subreddit: comment.subreddit || subreddit,
+      discussionId,
+      id: comment.id,
+      author: comment.author,
+      score: comment.score,
+    };
+    first.copies = addCopies(first.copies, [copy, ...(comment.copies || [])]);
+    stats.collapsedComments++;
+    return replies();
+  });
+}
+
+/**
+ * Merge duplicate discussions and copypasta across the given subreddits.
+ * Discussions are removed from their data in place, totals are adjusted
+ * and changed subreddits are analysed again.
+ */
+export function deduplicateRedditData(
+  dataList: RedditData[]
+): DeduplicationStats {
+  const stats: DeduplicationStats = {
+    duplicateDiscussions: 0,
+    mergedCrossposts: 0,
+    collapsedComments: 0,
+  };
+  const changed = new Set<RedditData>();
+  const kept = new Map<string, { discussion: Discussion; data: RedditData }>();
+
+  for (const data of dataList) {
+    data.discussions = data.discussions.filter((discussion) => {
+      const key = postKey(discussion);
+      const first = kept.get(key);
+      if (!first) {
+        kept.set(key, { discussion, data });
+        return true;
+      }
+
+      const crosspost = discussion.id !== first.discussion.id;
+      const copy: DiscussionCopy = {
+        subreddit: data.subreddit,
+        id: discussion.id,
+        score: discussion.score,
+        crosspost,
+      };
+      first.discussion.copies = addCopies(first.discussion.copies, [
+        copy,
+        ...(discussion.copies || []),
+      ]);
+
+      data.metadata.totalDiscussions--;
+      addComments(
+        data,
+        -countComments(discussion.comments),
+        -reportedComments(discussion)
+      );
+      if (crosspost) {
+        addComments(
+          first.data,
+          mergeCrosspostComments(first.discussion, discussion, data.subreddit),
+          reportedComments(discussion)
+        );
+        changed.add(first.data);
+        stats.mergedCrossposts++;
+      } else {
+        stats.duplicateDiscussions++;
+      }
+      changed.add(data);
+      return false;
+    });
+  }
+
+  const firstCopies = new Map<string, RedditComment>();
+  for (const data of dataList) {
+    for (const discussion of data.discussions) {
+      const before = stats.collapsedComments;
+      discussion.comments = collapseComments(
+        discussion.comments,
+        data.subreddit,
+        discussion.id,
+        firstCopies,
+        stats
+      );
+      if (stats.collapsedComments > before) {
+        // The copies count once, among fetched and reported comments alike
+        const collapsed = stats.collapsedComments - before;
+        addComments(data, -collapsed, -collapsed);
+        changed.add(data);
+      }
+    }
+  }
+
+  for (const data of changed) {
+    analyzeRedditData(data);
+  }
+
+  if (changed.size > 0) {
+    console.log(
+      `🔁 Merged ${stats.duplicateDiscussions} duplicate posts and ${stats.mergedCrossposts} crossposts, collapsed ${stats.collapsedComments} copypasta comments`
+    );
+  }
+
+  return stats;
+}
+
+/**
+ * Add de-duplication counts of a refresh to the stored ones
+ */
+export function addDeduplicationStats(
+  stored: DeduplicationStats | undefined,
+  added: DeduplicationStats
+): DeduplicationStats {
+  return {
+    duplicateDiscussions:
+      (stored?.duplicateDiscussions || 0) + added.duplicateDiscussions,
+    mergedCrossposts: (stored?.mergedCrossposts || 0) + added.mergedCrossposts,
+    collapsedComments:
+      (stored?.collapsedComments || 0) + added.collapsedComments,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Subreddit Discovery
+ *
+ * This module handles:
+ * - Searching posts site-wide for a query
+ * - Searching subreddit names and descriptions for the query
+ * - Ranking candidate subreddits by matching-post volume and engagement
+ */
+
+import type Snoowrap from "snoowrap";
+import type {
+  CandidatePost,
+  DiscoveryOptions,
+  DiscoveryResult,
+  SubredditCandidate,
+} from "./types/discovery";
+
+export const DEFAULT_DISCOVERY_OPTIONS: DiscoveryOptions = {
+  timeframe: "month",
+  postLimit: 100,
+  includeNsfw: false,
+};
+
+// /search returns at most 100 posts per request
+const SEARCH_PAGE_SIZE = 100;
+export const MAX_DISCOVERY_POSTS = 500;
+const NAME_SEARCH_LIMIT = 10;
+const TOP_POSTS_PER_CANDIDATE = 3;
+
+/**
+ * Rank a subreddit: every matching post counts, scaled by how much
+ * engagement those posts drew on a log scale so one viral post does not
+ * outweigh steady discussion
+ */
+function rankCandidate(candidate: SubredditCandidate): number {
+  if (candidate.postCount === 0) return 0;
+  const engagement = candidate.totalScore + candidate.totalComments;
+  return candidate.postCount * Math.log10(10 + engagement);
+}
+
+function getCandidate(
+  candidates: Map<string, SubredditCandidate>,
+  name: string
+): SubredditCandidate {
+  const key = name.toLowerCase();
+  if (!candidates.has(key)) {
+    candidates.set(key, {
+      name,
+      postCount: 0,
+      totalScore: 0,
+      totalComments: 0,
+      rank: 0,
+      matchedByName: false,
+      nsfw: false,
+      topPosts: [],
+    });
+  }
+  return candidates.get(key)!;
+}
+
+/**
+ * Find the subreddits where a query is being discussed
+ */
+export async function discoverSubreddits(
+  reddit: Snoowrap,
+  query: string,
+  options: Partial<DiscoveryOptions> = {}
+): Promise<DiscoveryResult> {
+  const { timeframe, postLimit, includeNsfw } = {
+    ...DEFAULT_DISCOVERY_OPTIONS,
+    ...options,
+  };
+
+  console.log(
+    `🧭 Discovering subreddits for "${query}" (last ${timeframe}, up to ${postLimit} posts)`
+  );
+
+  const searchOptions: any = {
+    query,
+    sort: "relevance",
+    time: timeframe,
+    limit: Math.min(postLimit, SEARCH_PAGE_SIZE),
+  };
+  let posts: any = await reddit.search(searchOptions);
+  if (posts.length < postLimit && !posts.isFinished) {
+    posts = await posts.fetchMore({ amount: postLimit - posts.length });
+  }
+
+  const candidates = new Map<string, SubredditCandidate>();
+  const postsBySubreddit = new Map<string, CandidatePost[]>();
+
+  for (const post of Array.from(posts) as any[]) {
+    if (!includeNsfw && post.over_18) continue;
+
+    const name: string | undefined =
+      post.subreddit?.display_name ||
+      post.subreddit_name_prefixed?.replace(/^r\//, "");
+    if (!name) continue;
+
+    const candidate = getCandidate(candidates, name);
+    candidate.postCount++;
+    candidate.totalScore += post.score;
+    candidate.totalComments += post.num_comments;
+
+    const key = name.toLowerCase();
+    if (!postsBySubreddit.has(key)) {
+      postsBySubreddit.set(key, []);
+    }
+    postsBySubreddit.get(key)!.push({
+      title: post.title,
+      url: `https://www.reddit.com${post.permalink}`,
+      score: post.score,
+      numComments: post.num_comments,
+    });
+  }
+
+  // Subreddits named or described after the query, even without matching posts
+  try {
+    const subreddits: any[] = Array.from(
+      await reddit.searchSubreddits({ query, limit: NAME_SEARCH_LIMIT })
+    );
+    for (const subreddit of subreddits) {
+      if (!includeNsfw && subreddit.over18) continue;
+
+      const candidate = getCandidate(candidates, subreddit.display_name);
+      candidate.matchedByName = true;
+      candidate.subscribers = subreddit.subscribers;
+      candidate.description = subreddit.public_description || undefined;
+      candidate.nsfw = Boolean(subreddit.over18);
+    }
+  } catch (error) {
+    console.error("❌ Subreddit name search failed (continuing):", error);
+  }
+
+  for (const [key, candidate] of candidates) {
+    candidate.rank = rankCandidate(candidate);
+    candidate.topPosts = (postsBySubreddit.get(key) || [])
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_POSTS_PER_CANDIDATE);
+  }
+
+  const ranked = [...candidates.values()].sort(
+    (a, b) =>
+      b.rank - a.rank ||
+      Number(b.matchedByName) - Number(a.matchedByName) ||
+      (b.subscribers || 0) - (a.subscribers || 0)
+  );
+
+  console.log(
+    `🧭 Found ${ranked.length} candidate subreddits from ${posts.length} posts`
+  );
+
+  return {
+    query,
+    timeframe,
+    postsScanned: posts.length,
+    candidates: ranked,
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Emoji and Emoticons
+ *
+ * This module handles:
+ * - Finding emoji (with skin tones and joiners) and text emoticons
+ * - Counting them per post or comment, and across an analysis
+ * - Replacing them with words the sentiment engine scores
+ * - Category-specific meanings, e.g. 🚀 and 💎🙌 in finance
+ *
+ * VADER knows a few ASCII emoticons and no emoji, so "to the moon 🚀🚀"
+ * scores as neutral. Symbols without a meaning here are counted and left
+ * in the text; "/s" is counted but kept for sarcasm detection.
+ */
+
+import type { RedditData } from "./types/reddit";
+import type { EmojiCounts, EmojiStats } from "./types/emoji";
+import { flattenCommentTree } from "./threads";
+
+// Emoji with their modifiers and joiners, e.g. 👍🏽 or 👨‍👩‍👧
+const EMOJI = new RegExp(
+  "\\p{Extended_Pictographic}" +
+    "(?:\\p{Emoji_Modifier}|\\uFE0F|\\u200D\\p{Extended_Pictographic})*",
+  "gu"
+);
+
+// Words from the VADER lexicon, null where the symbol carries no sentiment
+const EMOJI_MEANINGS: Record<string, string | null> = {
+  "😂": "laughing",
+  "🤣": "laughing",
+  "😆": "laughing",
+  "😄": "happy",
+  "😀": "happy",
+  "😊": "happy",
+  "🙂": "nice",
+  "😍": "love",
+  "🥰": "love",
+  "❤": "love",
+  "♥": "love",
+  "😘": "kiss",
+  "🤗": "hug",
+  "👍": "agree",
+  "👎": "disagree",
+  "👏": "applause",
+  "🙌": "celebrate",
+  "🎉": "celebrate",
+  "🥳": "celebrate",
+  "💯": "perfect",
+  "🔥": "amazing",
+  "✨": "nice",
+  "🙏": "grateful",
+  "💪": "strong",
+  "🏆": "win",
+  "🚀": "excited",
+  "😎": "cool",
+  "💀": "hilarious", // "I'm dead"
+  "😢": "sad",
+  "😞": "disappointed",
+  "😔": "sad",
+  "😭": "crying",
+  "💔": "heartbroken",
+  "😡": "angry",
+  "😠": "angry",
+  "🤬": "furious",
+  "🙄": "annoyed",
+  "😒": "annoyed",
+  "🤮": "disgusted",
+  "🤢": "disgusted",
+  "😱": "shocked",
+  "😨": "scared",
+  "😬": "ugh",
+  "🤡": "fool",
+  "😐": "meh",
+  "😑": "meh",
+  "🤔": null,
+  "👀": null,
+};
+
+// Emoticons, matched as separate words
+const EMOTICON_MEANINGS: Record<string, string | null> = {
+  ":)": "happy",
+  ":-)": "happy",
+  ":]": "happy",
+  ":D": "happy",
+  ":-D": "happy",
+  "xD": "laughing",
+  "XD": "laughing",
+  ";)": "nice",
+  ";-)": "nice",
+  ":P": "funny",
+  ":p": "funny",
+  "<3": "love",
+  ":(": "sad",
+  ":-(": "sad",
+  ":'(": "crying",
+  "</3": "heartbroken",
+  ">:(": "angry",
+  ":/": "meh",
+  ":|": "meh",
+  "/s": null,
+};
+
+// Meanings that differ within a category, keyed by category key. Sequences
+// of several emoji take precedence over their parts.
+const CATEGORY_MEANINGS: Record<string, Record<string, string | null>> = {
+  finance: {
+    "💎🙌": "confident", // Holding on through losses
+    "🚀": "gain",
+    "🌙": "gain", // "To the moon"
+    "📈": "gain",
+    "📉": "loss",
+    "🐂": "optimistic",
+    "🐻": "pessimistic",
+    "💸": "loss",
+    "🤡": "fool",
+  },
+  sports: {
+    "🐐": "best", // Greatest of all time
+    "🗑": "worst",
+  },
+  gaming: {
+    "🐐": "best",
+    "🗑": "worst",
+    "🧂": "annoyed", // Salty
+  },
+};
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const EMOTICON = new RegExp(
+  `(^|\\s)(${Object.keys(EMOTICON_MEANINGS)
+    .sort((a, b) => b.length - a.length)
+    .map(escape)
+    .join("|")})(?=\\s|[.,!?]|$)`,
+  "g"
+);
+
+// Skin tones and variation selectors do not change the meaning
+const normalize = (emoji: string) =>
+  emoji.replace(/\p{Emoji_Modifier}|\uFE0F/gu, "");
+
+const sequencePatterns = new Map<string, RegExp | null>();
+
+/**
+ * Sequences of several emoji with a meaning of their own in a category
+ */
+function getSequencePattern(category: string): RegExp | null {
+  if (!sequencePatterns.has(category)) {
+    const sequences = Object.keys(CATEGORY_MEANINGS[category] || {}).filter(
+      (symbol) => (symbol.match(EMOJI) || []).length > 1
+    );
+    sequencePatterns.set(
+      category,
+      sequences.length > 0
+        ? new RegExp(sequences.map(escape).join("|"), "gu")
+        : null
+    );
+  }
+  return sequencePatterns.get(category)!;
+}
+
+function getMeaning(symbol: string, category: string): string | null {
+  const meanings = CATEGORY_MEANINGS[category];
+  if (meanings && symbol in meanings) return meanings[symbol];
+  return EMOJI_MEANINGS[symbol] ?? EMOTICON_MEANINGS[symbol] ?? null;
+}
+
+/**
+ * Count emoji and emoticons in a text
+ */
+export function countEmoji(text: string): EmojiCounts {
+  const counts: EmojiCounts = {};
+  for (const emoji of text.match(EMOJI) || []) {
+    const symbol = normalize(emoji);
+    counts[symbol] = (counts[symbol] || 0) + 1;
+  }
+  for (const match of text.matchAll(EMOTICON)) {
+    counts[match[2]] = (counts[match[2]] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Replace emoji and emoticons with the words they stand for in a category.
+ * Symbols without a meaning are left as they are.
+ */
+export function translateEmoji(text: string, category: string = ""): string {
+  const word = (symbol: string, original: string) => {
+    const meaning = getMeaning(symbol, category);
+    return meaning ? ` ${meaning} ` : original;
+  };
+
+  const sequences = getSequencePattern(category);
+  const withSequences = sequences
+    ? text.replace(sequences, (sequence) => word(sequence, sequence))
+    : text;
+  return withSequences
+    .replace(EMOJI, (emoji) => word(normalize(emoji), emoji))
+    .replace(EMOTICON, (match, space, emoticon) =>
+      space + word(emoticon, emoticon).trim()
+    )
+    .replace(/ {2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Separate emoji from the words they are attached to, so "great👍" becomes
+ * two tokens
+ */
+export function separateEmoji(text: string): string {
+  return text.replace(EMOJI, (emoji) => ` ${emoji} `).replace(/ {2,}/g, " ");
+}
+
+function addCounts(stats: EmojiStats, counts: EmojiCounts | undefined) {
+  if (!counts) return;
+  let used = 0;
+  for (const [symbol, count] of Object.entries(counts)) {
+    stats.counts[symbol] = (stats.counts[symbol] || 0) + count;
+    used += count;
+  }
+  stats.total += used;
+  if (used > 0) stats.comments++;
+}
+
+/**
+ * Count emoji and emoticons across posts and comments
+ */
+export function summarizeEmoji(data: RedditData): EmojiStats {
+  const stats: EmojiStats = { total: 0, comments: 0, counts: {} };
+  for (const discussion of data.discussions) {
+    addCounts(stats, discussion.post?.emoji);
+    for (const comment of flattenCommentTree(discussion.comments)) {
+      addCounts(stats, comment.emoji);
+    }
+  }
+  return stats;
+}
+
+/**
+ * Combine per-subreddit emoji counts into one analysis-wide figure
+ */
+export function mergeEmojiStats(
+  dataList: RedditData[]
+): EmojiStats | undefined {
+  const stats = dataList
+    .map((data) => data.metadata.emoji)
+    .filter((emoji): emoji is EmojiStats => !!emoji);
+  if (stats.length === 0) return undefined;
+
+  const merged: EmojiStats = { total: 0, comments: 0, counts: {} };
+  for (const { total, comments, counts } of stats) {
+    for (const [symbol, count] of Object.entries(counts)) {
+      merged.counts[symbol] = (merged.counts[symbol] || 0) + count;
+    }
+    merged.total += total;
+    merged.comments += comments;
+  }
+  return merged;
+}
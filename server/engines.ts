@@ -0,0 +1,241 @@
+/**
+ * Sentiment Engines
+ *
+ * This module handles:
+ * - Registering sentiment engines by name, so analyses can choose one
+ * - VADER (the default), AFINN-165 and a scorer for a custom lexicon
+ * - An ensemble averaging the engines that found any sentiment
+ *
+ * Every engine reports VADER-style scores: `compound` from -1 to 1 and the
+ * shares of positive, neutral and negative words, so results of different
+ * engines compare on the same scale. The custom lexicon is a JSON file
+ * (SENTIMENT_LEXICON) mapping terms, including phrases, to a valence from
+ * -4 to 4, VADER's scale: `{ "entries": { "bullish": 2, "rug pull": -3 } }`.
+ */
+
+import fs from "fs-extra";
+import VADER from "vader-sentiment";
+import { afinn165 } from "afinn-165";
+import type { SentimentEngine, SentimentScores } from "./types/sentiment";
+
+export const DEFAULT_SENTIMENT_ENGINE = "vader";
+
+// The engines the ensemble averages
+const ENSEMBLE = ["vader", "afinn", "lexicon"];
+
+// VADER's constants: how sums are squashed into -1..1, and how much a
+// negation ("not good") scales and flips a term
+const ALPHA = 15;
+const NEGATION_SCALAR = -0.74;
+
+const NEGATIONS = new Set([
+  "not",
+  "no",
+  "never",
+  "none",
+  "nobody",
+  "nothing",
+  "neither",
+  "nor",
+  "cannot",
+  "without",
+  "dont",
+  "doesnt",
+  "didnt",
+  "isnt",
+  "wasnt",
+  "cant",
+  "wont",
+]);
+
+const WORDS = /[\p{L}\p{N}']+/gu;
+
+interface Lexicon {
+  valences: Map<string, number>;
+  maxWords: number;
+}
+
+const isNegation = (word: string | undefined) =>
+  !!word && (NEGATIONS.has(word) || word.endsWith("n't"));
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function toLexicon(entries: Record<string, number>, scale = 1): Lexicon {
+  const valences = new Map(
+    Object.entries(entries).map(([term, valence]) => [
+      term.toLowerCase(),
+      valence * scale,
+    ])
+  );
+  return {
+    valences,
+    maxWords: Math.max(
+      1,
+      ...[...valences.keys()].map((term) => term.split(" ").length)
+    ),
+  };
+}
+
+/**
+ * Score text with a word list, longest phrase first. A negation in the two
+ * words before a term flips it, and the sum is normalized like VADER's.
+ */
+function scoreWithLexicon(text: string, lexicon: Lexicon): SentimentScores {
+  const words = text.toLowerCase().match(WORDS) || [];
+  const valences: number[] = [];
+  let neutral = 0;
+
+  for (let i = 0; i < words.length; ) {
+    let length = Math.min(lexicon.maxWords, words.length - i);
+    let valence: number | undefined;
+    for (; length > 0; length--) {
+      valence = lexicon.valences.get(words.slice(i, i + length).join(" "));
+      if (valence !== undefined) break;
+    }
+
+    if (valence === undefined) {
+      neutral++;
+      i++;
+      continue;
+    }
+    const negated = isNegation(words[i - 1]) || isNegation(words[i - 2]);
+    valences.push(negated ? valence * NEGATION_SCALAR : valence);
+    i += length;
+  }
+
+  const sum = valences.reduce((total, valence) => total + valence, 0);
+  const positive = valences
+    .filter((valence) => valence > 0)
+    .reduce((total, valence) => total + valence, 0);
+  const negative = -valences
+    .filter((valence) => valence < 0)
+    .reduce((total, valence) => total + valence, 0);
+  const total = positive + negative + neutral;
+  if (total === 0) return { compound: 0, pos: 0, neu: 0, neg: 0 };
+
+  return {
+    compound: round(sum / Math.sqrt(sum * sum + ALPHA), 4),
+    pos: round(positive / total, 3),
+    neu: round(neutral / total, 3),
+    neg: round(negative / total, 3),
+  };
+}
+
+/**
+ * Path of the custom lexicon, from SENTIMENT_LEXICON
+ */
+export function getSentimentLexiconPath(): string {
+  return process.env.SENTIMENT_LEXICON || "./lexicons/sentiment/reddit.json";
+}
+
+let customLexicon: Lexicon | null = null;
+
+/**
+ * Read the custom lexicon. Throws when the file is not valid; a missing
+ * file leaves the engine without terms.
+ */
+function readSentimentLexicon(
+  file: string = getSentimentLexiconPath()
+): Lexicon {
+  if (!fs.pathExistsSync(file)) {
+    console.warn(`⚠️ Sentiment lexicon ${file} not found`);
+    return toLexicon({});
+  }
+
+  const { entries } = fs.readJsonSync(file);
+  if (!entries || typeof entries !== "object" || Array.isArray(entries)) {
+    throw new Error(`Invalid sentiment lexicon ${file}: no entries`);
+  }
+  const invalid = Object.entries(entries).filter(
+    ([, valence]) =>
+      typeof valence !== "number" || valence < -4 || valence > 4
+  );
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid sentiment lexicon ${file}: valences must be from -4 to 4 (${invalid
+        .map(([term]) => term)
+        .join(", ")})`
+    );
+  }
+
+  return toLexicon(entries);
+}
+
+// The lexicon file is read on first use
+function getCustomLexicon() {
+  if (!customLexicon) customLexicon = readSentimentLexicon();
+  return customLexicon;
+}
+
+const engines = new Map<string, SentimentEngine>();
+
+/**
+ * Make an engine available to sentiment policies by its name. Registering
+ * a name again replaces the engine.
+ */
+export function registerSentimentEngine(engine: SentimentEngine): void {
+  engines.set(engine.name, engine);
+}
+
+export function getSentimentEngines(): SentimentEngine[] {
+  return [...engines.values()];
+}
+
+export function getSentimentEngine(name: string): SentimentEngine | undefined {
+  return engines.get(name);
+}
+
+registerSentimentEngine({
+  name: "vader",
+  description:
+    "VADER: a social media lexicon with rules for negation, intensifiers, " +
+    "capitals, punctuation and emoticons",
+  score: (text) => VADER.SentimentIntensityAnalyzer.polarity_scores(text),
+});
+
+// AFINN rates words from -5 to 5, scaled to VADER's -4 to 4
+const afinn = toLexicon(afinn165, 4 / 5);
+
+registerSentimentEngine({
+  name: "afinn",
+  description:
+    "AFINN-165: 3,382 words and phrases rated from -5 to 5, flipped after " +
+    "a negation",
+  score: (text) => scoreWithLexicon(text, afinn),
+});
+
+registerSentimentEngine({
+  name: "lexicon",
+  description:
+    "Custom lexicon from SENTIMENT_LEXICON, with terms rated from -4 to 4",
+  score: (text) => scoreWithLexicon(text, getCustomLexicon()),
+});
+
+registerSentimentEngine({
+  name: "ensemble",
+  description: `Average of ${ENSEMBLE.join(
+    ", "
+  )}, leaving out engines that found no sentiment words`,
+  score: (text) => {
+    const scores = ENSEMBLE.map((name) => engines.get(name))
+      .filter((engine): engine is SentimentEngine => !!engine)
+      .map((engine) => engine.score(text));
+    // A narrow lexicon that knows no word of the text would pull every
+    // score towards neutral
+    const found = scores.filter((score) => score.pos + score.neg > 0);
+    if (found.length === 0) return scores[0];
+
+    const average = (key: keyof SentimentScores) =>
+      round(
+        found.reduce((sum, score) => sum + score[key], 0) / found.length,
+        key === "compound" ? 4 : 3
+      );
+    return {
+      compound: average("compound"),
+      pos: average("pos"),
+      neu: average("neu"),
+      neg: average("neg"),
+    };
+  },
+});
@@ -0,0 +1,245 @@
+/**
+ * Sarcasm Evaluation
+ *
+ * This module handles:
+ * - Running the labelled examples through the default preprocessing
+ *   pipeline and measuring their sarcasm features
+ * - Cross-validating: fitting weights on all folds but one and scoring the
+ *   held-out fold, so the figures are measured on examples the weights
+ *   were not fitted on
+ * - Reporting the shipped weights on the same examples (optimistic, since
+ *   they were fitted on them), how often each feature fires on sarcastic
+ *   and sincere examples, other confidence thresholds and the
+ *   misclassified examples
+ * - Fitting weights on all examples with --fit, to update SARCASM_WEIGHTS
+ *
+ * Usage: bun run evaluate.ts [examples.json] [--weights=weights.json]
+ *        [--folds=5] [--fit]
+ */
+
+import fs from "fs-extra";
+import { preprocessText } from "./preprocessing";
+import {
+  extractSarcasmFeatures,
+  SARCASM_WEIGHTS,
+  scoreSarcasm,
+} from "./sarcasm";
+import type {
+  SarcasmExample,
+  SarcasmFeature,
+  SarcasmFeatures,
+  SarcasmWeights,
+} from "./types/sarcasm";
+
+const flag = (name: string) =>
+  process.argv
+    .find((arg) => arg.startsWith(`--${name}=`))
+    ?.slice(`--${name}=`.length);
+const positional = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+
+const file = positional[0] || "./datasets/sarcasm.json";
+const examples: SarcasmExample[] = fs.readJsonSync(file);
+const weightsArg = flag("weights");
+const weights: SarcasmWeights = weightsArg
+  ? fs.readJsonSync(weightsArg)
+  : SARCASM_WEIGHTS;
+const folds = parseInt(flag("folds") || "5", 10);
+if (!Number.isInteger(folds) || folds < 2 || folds > examples.length) {
+  console.error(
+    `❌ --folds must be a whole number from 2 to ${examples.length}`
+  );
+  process.exit(1);
+}
+
+interface Measured {
+  example: SarcasmExample;
+  features: SarcasmFeatures;
+}
+
+// Score what the detector sees in an analysis: clean text, emoji counted
+const measured: Measured[] = examples.map((example) => {
+  const { text, emoji } = preprocessText(example.text);
+  return { example, features: extractSarcasmFeatures(text, emoji) };
+});
+
+const FEATURES = Object.keys(SARCASM_WEIGHTS.features) as SarcasmFeature[];
+
+// Fitting: logistic regression by gradient descent with a little L2
+// regularization, feature weights kept at 0 or more since every feature is
+// evidence for sarcasm
+const ITERATIONS = 5000;
+const LEARNING_RATE = 0.5;
+const REGULARIZATION = 0.01;
+
+/**
+ * Fit weights to labelled feature measurements. Deterministic, so the same
+ * examples always give the same weights.
+ */
+function fitWeights(training: Measured[]): SarcasmWeights {
+  let bias = 0;
+  const features = Object.fromEntries(
+    FEATURES.map((feature) => [feature, 0])
+  ) as Record<SarcasmFeature, number>;
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let biasGradient = 0;
+    const gradients = Object.fromEntries(
+      FEATURES.map((feature) => [feature, 0])
+    ) as Record<SarcasmFeature, number>;
+
+    for (const { example, features: measuredFeatures } of training) {
+      const logit = FEATURES.reduce(
+        (sum, feature) => sum + features[feature] * measuredFeatures[feature],
+        bias
+      );
+      const error =
+        1 / (1 + Math.exp(-logit)) - (example.sarcastic ? 1 : 0);
+      biasGradient += error;
+      for (const feature of FEATURES) {
+        gradients[feature] += error * measuredFeatures[feature];
+      }
+    }
+
+    bias -= (LEARNING_RATE * biasGradient) / training.length;
+    for (const feature of FEATURES) {
+      features[feature] = Math.max(
+        0,
+        features[feature] -
+          LEARNING_RATE *
+            (gradients[feature] / training.length +
+              REGULARIZATION * features[feature])
+      );
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    bias: round(bias),
+    features: Object.fromEntries(
+      FEATURES.map((feature) => [feature, round(features[feature])])
+    ) as Record<SarcasmFeature, number>,
+  };
+}
+
+if (process.argv.includes("--fit")) {
+  console.log(JSON.stringify(fitWeights(measured), null, 2));
+  process.exit(0);
+}
+
+interface Prediction {
+  example: SarcasmExample;
+  confidence: number;
+}
+
+function summarize(predictions: Prediction[], threshold = 50) {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  let tn = 0;
+  for (const { example, confidence } of predictions) {
+    const predicted = confidence >= threshold;
+    if (predicted && example.sarcastic) tp++;
+    else if (predicted) fp++;
+    else if (example.sarcastic) fn++;
+    else tn++;
+  }
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 =
+    precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  const accuracy = (tp + tn) / predictions.length;
+  return { tp, fp, fn, tn, precision, recall, f1, accuracy };
+}
+
+const format = (value: number) => value.toFixed(2);
+
+function printSummary(predictions: Prediction[]) {
+  const summary = summarize(predictions);
+  console.log(
+    `   Precision: ${format(summary.precision)}  Recall: ${format(
+      summary.recall
+    )}  F1: ${format(summary.f1)}  Accuracy: ${format(summary.accuracy)}`
+  );
+  console.log(
+    `   True positives: ${summary.tp}, false positives: ${summary.fp}, false negatives: ${summary.fn}, true negatives: ${summary.tn}`
+  );
+}
+
+// Stratified folds: sarcastic and sincere examples dealt out in turn, so
+// every fold holds both
+const foldOf = new Map<Measured, number>();
+for (const sarcastic of [true, false]) {
+  measured
+    .filter(({ example }) => example.sarcastic === sarcastic)
+    .forEach((item, index) => foldOf.set(item, index % folds));
+}
+
+const crossValidated: Prediction[] = [];
+for (let fold = 0; fold < folds; fold++) {
+  const fitted = fitWeights(measured.filter((item) => foldOf.get(item) !== fold));
+  for (const item of measured.filter((item) => foldOf.get(item) === fold)) {
+    crossValidated.push({
+      example: item.example,
+      confidence: scoreSarcasm(item.features, fitted),
+    });
+  }
+}
+
+const sarcasticCount = examples.filter((example) => example.sarcastic).length;
+console.log(
+  `📊 Sarcasm detection on ${examples.length} labelled examples (${sarcasticCount} sarcastic) from ${file}`
+);
+console.log(
+  `\n🧪 Cross-validated over ${folds} folds (weights fitted without the fold scored):`
+);
+printSummary(crossValidated);
+
+const predictions: Prediction[] = measured.map(({ example, features }) => ({
+  example,
+  confidence: scoreSarcasm(features, weights),
+}));
+console.log(
+  `\n⚠️ ${
+    weightsArg ? `Weights from ${weightsArg}` : "Shipped weights"
+  } on the same examples (optimistic when fitted on them):`
+);
+printSummary(predictions);
+
+console.log(`\n🔎 Features found (sarcastic / sincere examples, weight):`);
+for (const feature of FEATURES) {
+  const found = measured.filter(({ features }) => features[feature] > 0);
+  const inSarcastic = found.filter(({ example }) => example.sarcastic).length;
+  console.log(
+    `   ${feature.padEnd(15)} ${String(inSarcastic).padStart(3)} / ${String(
+      found.length - inSarcastic
+    ).padEnd(3)} ${weights.features[feature]}`
+  );
+}
+
+console.log(`\n🎚️ Confidence thresholds (cross-validated):`);
+for (const threshold of [30, 40, 50, 60, 70]) {
+  const { precision, recall, f1 } = summarize(crossValidated, threshold);
+  console.log(
+    `   ${threshold}%: precision ${format(precision)}, recall ${format(
+      recall
+    )}, F1 ${format(f1)}`
+  );
+}
+
+const misclassified = crossValidated.filter(
+  ({ example, confidence }) => confidence >= 50 !== example.sarcastic
+);
+if (misclassified.length > 0) {
+  console.log(`\n❌ Misclassified when held out:`);
+  for (const { example, confidence } of misclassified) {
+    const found = FEATURES.filter(
+      (feature) => measured.find((item) => item.example === example)!
+        .features[feature] > 0
+    );
+    console.log(
+      `   ${example.sarcastic ? "missed" : "false alarm"} (${confidence}%${
+        found.length > 0 ? `, ${found.join(", ")}` : ""
+      }): ${example.text}`
+    );
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Content Filtering
+ *
+ * This module handles:
+ * - Dropping comments by known bots and authors whose names look like bots
+ * - Dropping deleted, removed, boilerplate and near-empty comments
+ * - Clearing deleted or removed post bodies
+ * - Dropping comments outside the languages an analysis is limited to
+ * - Counting excluded comments per reason
+ *
+ * Filtering runs on fetched data before preprocessing, so excluded text never
+ * reaches sentiment or entity analysis. Replies to an excluded comment are
+ * kept and move up to its parent. The language filter applies even when
+ * CONTENT_FILTER is off, since it is part of the analysis request.
+ */
+
+import type { RedditComment, RedditData } from "./types/reddit";
+import type {
+  ContentFilterOptions,
+  ContentFilterReason,
+  ContentFilterStats,
+} from "./types/filters";
+import { readIntegerSetting } from "./datasource";
+import { detectLanguage, matchesLanguages } from "./language";
+
+export const DEFAULT_KNOWN_BOTS = [
+  "AutoModerator",
+  "RemindMeBot",
+  "RepostSleuthBot",
+  "sneakpeekbot",
+  "WikiTextBot",
+  "WikiSummarizerBot",
+  "SaveVideo",
+  "savevideobot",
+  "LinkifyBot",
+  "B0tRank",
+  "TweetPoster",
+  "converter-bot",
+  "haikusbot",
+  "nice-scores",
+  "Reddit-Book-Bot",
+  "VredditDownloader",
+  "stabbot",
+  "alphabet_order_bot",
+];
+
+export const DEFAULT_CONTENT_FILTER: ContentFilterOptions = {
+  enabled: true,
+  knownBots: DEFAULT_KNOWN_BOTS,
+  botPatterns: [/[-_]bot\d*$/i, /^bot[-_]/i, /[a-z]Bot\d*$/],
+  boilerplatePatterns: [
+    /i am a bot,? and this action was performed automatically/i,
+    /^\W*beep,? boop/i,
+    /please contact the moderators of this subreddit/i,
+    /^your (post|submission|comment) has been removed/i,
+  ],
+  boilerplateRepeats: 3,
+  minLength: 1,
+};
+
+const DELETED = /^\[deleted\]$/i;
+const REMOVED = /^\[\s*removed( by reddit)?\s*\]$/i;
+
+// Letters, digits and emoji, so "^" and "..." are empty but "👍" is not
+const CONTENT_CHARACTER = /[\p{L}\p{N}\p{Extended_Pictographic}]/gu;
+
+function emptyCounts(): Record<ContentFilterReason, number> {
+  return {
+    knownBot: 0,
+    botPattern: 0,
+    deleted: 0,
+    removed: 0,
+    boilerplate: 0,
+    tooShort: 0,
+    language: 0,
+  };
+}
+
+function bodyOf(comment: RedditComment): string {
+  return (comment.body ?? comment.text ?? "").trim();
+}
+
+function repeatKey(comment: RedditComment): string {
+  return `${comment.author}\n${bodyOf(comment)
+    .toLowerCase()
+    .replace(/\s+/g, " ")}`;
+}
+
+/**
+ * Texts the same author posted at least `repeats` times, keyed by author
+ * and normalised text
+ */
+function findRepeatedTexts(
+  comments: RedditComment[],
+  repeats: number
+): Set<string> {
+  if (repeats <= 0) return new Set();
+
+  const counts = new Map<string, number>();
+  const count = (list: RedditComment[]) => {
+    for (const comment of list) {
+      if (comment.author && comment.author !== "[deleted]") {
+        const key = repeatKey(comment);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+      count(comment.replies || []);
+    }
+  };
+  count(comments);
+
+  return new Set(
+    [...counts].filter(([, total]) => total >= repeats).map(([key]) => key)
+  );
+}
+
+function getExclusionReason(
+  comment: RedditComment,
+  options: ContentFilterOptions,
+  knownBots: Set<string>,
+  repeated: Set<string>
+): ContentFilterReason | null {
+  const author = comment.author || "";
+  const body = bodyOf(comment);
+
+  if (knownBots.has(author.toLowerCase())) return "knownBot";
+  if (options.botPatterns.some((pattern) => pattern.test(author))) {
+    return "botPattern";
+  }
+  if (DELETED.test(body)) return "deleted";
+  if (REMOVED.test(body)) return "removed";
+  if (
+    options.boilerplatePatterns.some((pattern) => pattern.test(body)) ||
+    repeated.has(repeatKey(comment))
+  ) {
+    return "boilerplate";
+  }
+  if (
+    options.minLength > 0 &&
+    (body.match(CONTENT_CHARACTER) || []).length < options.minLength
+  ) {
+    return "tooShort";
+  }
+  return null;
+}
+
+function getLanguageExclusion(
+  comment: RedditComment,
+  languages: readonly string[]
+): ContentFilterReason | null {
+  if (languages.length === 0) return null;
+  return matchesLanguages(detectLanguage(bodyOf(comment)), languages)
+    ? null
+    : "language";
+}
+
+/**
+ * Drop excluded comments at every depth, keeping their replies
+ */
+function filterComments(
+  comments: RedditComment[],
+  exclude: (comment: RedditComment) => ContentFilterReason | null,
+  stats: ContentFilterStats
+): RedditComment[] {
+  return comments.flatMap((comment) => {
+    stats.checked++;
+    const replies = filterComments(comment.replies || [], exclude, stats);
+    const reason = exclude(comment);
+    if (reason) {
+      stats.excluded[reason]++;
+      return replies;
+    }
+    return [{ ...comment, replies }];
+  });
+}
+
+/**
+ * Remove bot, deleted, removed, boilerplate and near-empty content, and
+ * comments outside `metadata.languageFilter`, from fetched data and record
+ * what was excluded in the metadata
+ */
+export function filterRedditData(
+  data: RedditData,
+  options: ContentFilterOptions = getContentFilterConfig()
+): RedditData {
+  const languages = data.metadata.languageFilter || [];
+  if (!options.enabled && languages.length === 0) return data;
+
+  const stats: ContentFilterStats = {
+    checked: 0,
+    excluded: emptyCounts(),
+    clearedPostBodies: 0,
+  };
+  const knownBots = new Set(
+    options.knownBots.map((name) => name.toLowerCase())
+  );
+  const repeated = findRepeatedTexts(
+    data.discussions.flatMap((discussion) => discussion.comments),
+    options.boilerplateRepeats
+  );
+  const exclude = (comment: RedditComment) =>
+    (options.enabled
+      ? getExclusionReason(comment, options, knownBots, repeated)
+      : null) ?? getLanguageExclusion(comment, languages);
+
+  data.discussions = data.discussions.map((discussion) => {
+    const content = discussion.content?.trim();
+    const cleared =
+      options.enabled &&
+      !!content &&
+      (DELETED.test(content) || REMOVED.test(content));
+    if (cleared) stats.clearedPostBodies++;
+
+    return {
+      ...discussion,
+      content: cleared ? undefined : discussion.content,
+      comments: filterComments(discussion.comments, exclude, stats),
+    };
+  });
+
+  const excludedTotal = Object.values(stats.excluded).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+  if (excludedTotal > 0) {
+    console.log(
+      `🧹 Filtered ${excludedTotal}/${stats.checked} comments from r/${
+        data.subreddit
+      } (${Object.entries(stats.excluded)
+        .filter(([, count]) => count > 0)
+        .map(([reason, count]) => `${reason}: ${count}`)
+        .join(", ")})`
+    );
+  }
+
+  data.metadata.filtered = stats;
+  return data;
+}
+
+/**
+ * Combine per-subreddit filter counts into one analysis-wide figure
+ */
+export function mergeFilterStats(
+  dataList: RedditData[]
+): ContentFilterStats | undefined {
+  const filtered = dataList
+    .map((data) => data.metadata.filtered)
+    .filter((stats): stats is ContentFilterStats => !!stats);
+  if (filtered.length === 0) return undefined;
+
+  const excluded = emptyCounts();
+  for (const stats of filtered) {
+    for (const reason of Object.keys(excluded) as ContentFilterReason[]) {
+      excluded[reason] += stats.excluded[reason] || 0;
+    }
+  }
+
+  return {
+    checked: filtered.reduce((sum, stats) => sum + stats.checked, 0),
+    excluded,
+    clearedPostBodies: filtered.reduce(
+      (sum, stats) => sum + stats.clearedPostBodies,
+      0
+    ),
+  };
+}
+
+/**
+ * Add the filter counts of a refresh to the stored ones. Stored comments
+ * already passed the filter and are checked again, so the `rechecked` of
+ * them are not counted as checked twice.
+ */
+export function addFilterStats(
+  stored: ContentFilterStats | undefined,
+  added: ContentFilterStats | undefined,
+  rechecked: number = 0
+): ContentFilterStats | undefined {
+  if (!stored || !added) return stored ?? added;
+
+  const excluded = emptyCounts();
+  for (const reason of Object.keys(excluded) as ContentFilterReason[]) {
+    excluded[reason] =
+      (stored.excluded[reason] || 0) + (added.excluded[reason] || 0);
+  }
+
+  return {
+    checked: stored.checked + Math.max(0, added.checked - rechecked),
+    excluded,
+    clearedPostBodies: stored.clearedPostBodies + added.clearedPostBodies,
+  };
+}
+
+/**
+ * Read the content filter configuration from CONTENT_FILTER ("off" disables
+ * it), FILTER_BOTS (extra bot names, comma-separated), FILTER_MIN_LENGTH and
+ * FILTER_BOILERPLATE_REPEATS (0 disables either check). Throws on invalid
+ * values.
+ */
+export function getContentFilterConfig(
+  overrides: Partial<ContentFilterOptions> = {}
+): ContentFilterOptions {
+  const extraBots = (process.env.FILTER_BOTS || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return {
+    ...DEFAULT_CONTENT_FILTER,
+    enabled: process.env.CONTENT_FILTER !== "off",
+    knownBots: [...DEFAULT_CONTENT_FILTER.knownBots, ...extraBots],
+    minLength: readIntegerSetting(
+      "FILTER_MIN_LENGTH",
+      DEFAULT_CONTENT_FILTER.minLength,
+      0
+    ),
+    boilerplateRepeats: readIntegerSetting(
+      "FILTER_BOILERPLATE_REPEATS",
+      DEFAULT_CONTENT_FILTER.boilerplateRepeats,
+      0
+    ),
+    ...overrides,
+  };
+}
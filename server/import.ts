@@ -0,0 +1,191 @@
+import { importArchive } from "./archive";
+import { summarizeCoverage } from "./datasource";
+import { saveToFile } from "./reddit";
+import {
+  getPreprocessingConfig,
+  preprocessRedditData,
+  resolvePreprocessing,
+} from "./preprocessing";
+import type { PreprocessingConfig } from "./types/preprocessing";
+import { filterRedditData } from "./filters";
+import { flagQueryMatches, resolveQuery } from "./query";
+import type { ParsedQuery } from "./types/query";
+import { resolveLanguages } from "./language";
+import {
+  analyzeRedditData,
+  getSentimentPolicy,
+  resolveSentimentPolicy,
+} from "./sentiment";
+import type { SentimentPolicy } from "./types/sentiment";
+import type { ResolvedSubreddits } from "./types/categories";
+import { loadCategories, toCategoryMap } from "./categories";
+import { loadSlangLexicons } from "./lexicons";
+import {
+  resolveSubreddits,
+  parseSubredditList,
+  CUSTOM_CATEGORY,
+} from "./subreddits";
+import { NERService } from "./ner";
+import { saveEntityAnalysis } from "./storage";
+
+const positional = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+const flag = (name: string) =>
+  process.argv
+    .find((arg) => arg.startsWith(`--${name}=`))
+    ?.slice(name.length + 3);
+
+const categoryArg = positional[0];
+const searchQuery = positional[1];
+const files = positional.slice(2);
+const afterArg = flag("after");
+const beforeArg = flag("before");
+const subredditsArg = flag("subreddits");
+const minScoreArg = flag("min-score");
+const enableEntityAnalysis = process.argv.includes("--entities");
+
+const categoryList = await loadCategories();
+await loadSlangLexicons();
+
+if (!categoryArg || !searchQuery || files.length === 0) {
+  console.error(
+    "❌ Usage: bun run import.ts <category> <search_query> <file...> [--after=YYYY-MM-DD] [--before=YYYY-MM-DD] [--subreddits=a,b] [--include=a,b] [--exclude=a,b] [--min-score=N] [--expand] [--languages=a,b] [--preprocessing=a,b] [--engine=vader|afinn|lexicon|ensemble] [--sarcasm=none|dampen|invert] [--entities]"
+  );
+  console.error(
+    "\nFiles are Pushshift NDJSON dumps (submissions and/or comments), optionally .zst compressed."
+  );
+  console.error(
+    "Subreddits default to the category's list; --subreddits replaces it (use category \"custom\"), --include/--exclude adjust it."
+  );
+  console.error(
+    "\nAvailable categories:",
+    categoryList.map((category) => category.key).join(", ")
+  );
+  process.exit(1);
+}
+
+const parseDate = (value: string | undefined, name: string) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(`❌ Invalid ${name} date "${value}". Use YYYY-MM-DD.`);
+    process.exit(1);
+  }
+  return date;
+};
+
+let parsedQuery: ParsedQuery;
+let languageFilter: string[];
+let preprocessing: PreprocessingConfig;
+let sentimentPolicy: SentimentPolicy;
+try {
+  parsedQuery = resolveQuery(searchQuery, process.argv.includes("--expand"));
+  languageFilter = resolveLanguages(flag("languages"));
+  preprocessing = resolvePreprocessing(
+    flag("preprocessing"),
+    getPreprocessingConfig()
+  );
+  sentimentPolicy = resolveSentimentPolicy(
+    { engine: flag("engine"), sarcasm: flag("sarcasm") },
+    getSentimentPolicy()
+  );
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const after = parseDate(afterArg, "--after");
+const before = parseDate(beforeArg, "--before");
+const minPostScore = Number(minScoreArg || "0");
+if (!Number.isInteger(minPostScore)) {
+  console.error(`❌ Invalid --min-score "${minScoreArg}". Use a whole number.`);
+  process.exit(1);
+}
+
+let selection: ResolvedSubreddits;
+try {
+  selection = resolveSubreddits(
+    {
+      category: categoryArg === CUSTOM_CATEGORY ? undefined : categoryArg,
+      subreddits: parseSubredditList(subredditsArg),
+      include: parseSubredditList(flag("include")),
+      exclude: parseSubredditList(flag("exclude")),
+    },
+    toCategoryMap(categoryList)
+  );
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const { subreddits } = selection;
+
+async function run() {
+  console.log(`🚀 Starting Reddit archive import...`);
+  console.log(
+    `📊 Settings: Category: ${selection.category}, Query: "${searchQuery}", Range: ${
+      afterArg || "start"
+    } → ${beforeArg || "end"}, Files: ${files.length}`
+  );
+
+  const { data: imported } = await importArchive({
+    files,
+    subreddits: [...subreddits],
+    query: parsedQuery,
+    category: selection.category,
+    after,
+    before,
+    minPostScore,
+  });
+
+  let nerService: NERService | null = null;
+  if (enableEntityAnalysis) {
+    console.log("🤖 Initializing compromise.js NER service...");
+    nerService = new NERService();
+    await nerService.initialize();
+  }
+
+  for (const rawData of imported) {
+    const subreddit = rawData.subreddit;
+    try {
+      console.log(`\n📱 Processing r/${subreddit}...`);
+      summarizeCoverage(rawData);
+      rawData.metadata.languageFilter = languageFilter;
+      rawData.metadata.preprocessing = preprocessing;
+      rawData.metadata.sentimentPolicy = sentimentPolicy;
+      filterRedditData(rawData);
+      flagQueryMatches(rawData);
+      console.log(`🔄 Preprocessing data from r/${subreddit}...`);
+      const processedData = preprocessRedditData(rawData);
+
+      console.log(`📊 Analyzing sentiment for r/${subreddit}...`);
+      const data = analyzeRedditData(processedData);
+
+      await saveToFile(data);
+
+      if (enableEntityAnalysis && nerService) {
+        try {
+          const entityAnalysis = await nerService.analyzeEntities(data);
+          data.entityAnalysis = entityAnalysis;
+          await saveEntityAnalysis(entityAnalysis);
+          console.log(
+            `✅ Found ${entityAnalysis.totalEntities} unique entities in r/${subreddit}`
+          );
+        } catch (entityError) {
+          console.error(
+            `❌ Error during entity analysis for r/${subreddit}:`,
+            entityError
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Error processing r/${subreddit}:`, error);
+      console.log("⚠️ Continuing with next subreddit...");
+    }
+  }
+
+  console.log(
+    `\n✅ Done! Imported ${imported.length} subreddits from the archive.`
+  );
+  process.exit(0);
+}
+
+run();
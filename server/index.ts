@@ -1,59 +1,202 @@
-import { fetchComments, saveToFile, initializeReddit } from "./reddit";
-import { categories, type Category } from "./types/categories";
+import { fetchSubreddits, saveToFile, createDataSource } from "./reddit";
+import { getDataSourceConfig, RequestBudget } from "./datasource";
+import type { DataSourceType, SamplingOptions } from "./types/datasource";
+import type { ResolvedSubreddits } from "./types/categories";
+import { loadCategories, toCategoryMap } from "./categories";
+import { loadSlangLexicons } from "./lexicons";
+import {
+  resolveSubreddits,
+  parseSubredditList,
+  CUSTOM_CATEGORY,
+} from "./subreddits";
+import {
+  resolveSampling,
+  DEFAULT_SAMPLING,
+  SEARCH_SORTS,
+  COMMENT_SORTS,
+} from "./sampling";
 import { NERService } from "./ner";
 import { saveEntityAnalysis } from "./storage";
+import { useCassette } from "./cassette";
+import { resolveQuery } from "./query";
+import { resolveLanguages } from "./language";
+import {
+  getPreprocessingConfig,
+  getPreprocessingStages,
+  resolvePreprocessing,
+} from "./preprocessing";
+import type { PreprocessingConfig } from "./types/preprocessing";
+import {
+  getSentimentPolicy,
+  resolveSentimentPolicy,
+  SARCASM_POLICIES,
+} from "./sentiment";
+import { getSentimentEngines } from "./engines";
+import type { SentimentPolicy } from "./types/sentiment";
+import type { ParsedQuery } from "./types/query";
 
 const timeFilters = ["hour", "day", "week", "month", "year", "all"] as const;
 type TimeFilter = (typeof timeFilters)[number];
 
 const categoryArg = process.argv[2];
 const searchQuery = process.argv[3];
-const timeFilterArg = (process.argv[4] as TimeFilter) || "week";
-const minPostScoreArg = parseInt(process.argv[5] || "50", 10);
 const enableEntityAnalysis = process.argv.includes("--entities");
+const sourceArg = process.argv
+  .find((arg) => arg.startsWith("--source="))
+  ?.split("=")[1] as DataSourceType | undefined;
+const fixturesArg = process.argv
+  .find((arg) => arg.startsWith("--fixtures="))
+  ?.split("=")[1];
+const flagArg = (name: string) =>
+  process.argv.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+
+const categoryList = await loadCategories();
+await loadSlangLexicons();
 
 if (!categoryArg || !searchQuery) {
   console.error(
-    "❌ Usage: bun run index.ts <category> <search_query> [time_filter] [min_post_score] [--entities]"
+    "❌ Usage: bun run index.ts <category|custom> <search_query> [time_filter] [min_post_score] [--entities] [--expand] [--languages=a,b] [--preprocessing=a,b] [--engine=vader|afinn|lexicon|ensemble] [--sarcasm=none|dampen|invert] [--subreddits=a,b] [--include=a,b] [--exclude=a,b] [--search-sort=<sort>] [--posts=N] [--comment-sort=<sort>] [--comments=N] [--source=reddit|fixture|memory] [--fixtures=<dir>] [--record=<file>|--replay=<file>]"
   );
   console.error("\nAvailable categories:");
-  Object.keys(categories).forEach((category) => {
-    console.error(`\n${category.toUpperCase()}:`);
-    console.error(
-      `  Subreddits: ${categories[category as Category].join(", ")}`
-    );
+  categoryList.forEach((category) => {
+    console.error(`\n${category.key.toUpperCase()}:`);
+    if (category.description) {
+      console.error(`  ${category.description}`);
+    }
+    console.error(`  Subreddits: ${category.subreddits.join(", ")}`);
   });
-  console.error("\nTime filters:", timeFilters.join(", "), "(default: week)");
   console.error(
-    "Min post score: Minimum upvotes for posts (default: 50, comments are unfiltered)"
+    "\nTime filters:",
+    timeFilters.join(", "),
+    "(default: the category's, usually week)"
+  );
+  console.error(
+    "Min post score: Minimum upvotes for posts (default: the category's, usually 50; comments are unfiltered)"
   );
   console.error(
     "Add --entities flag to enable entity recognition using compromise.js"
   );
+  console.error(
+    'Queries accept "exact phrases", a OR b, +required and -excluded terms; add --expand to search synonyms too (GTA VI ↔ GTA 6)'
+  );
+  console.error(
+    "Use --languages=en,de to keep only comments in those languages (undetermined ones stay); sentiment only scores English"
+  );
+  console.error(
+    `Use --preprocessing=a,b to choose the preprocessing stages, in order (default: ${getPreprocessingConfig().stages.join(",")}); available: ${getPreprocessingStages().map((stage) => stage.name).join(", ")}`
+  );
+  console.error(
+    `Use --sarcasm=${SARCASM_POLICIES.join("|")} to choose how sarcasm adjusts sentiment (default: ${getSentimentPolicy().sarcasm})`
+  );
+  console.error(
+    `Use --engine=${getSentimentEngines().map((engine) => engine.name).join("|")} to choose the sentiment engine (default: ${getSentimentPolicy().engine})`
+  );
+  console.error(
+    "Use --subreddits=a,b to analyse your own list (category \"custom\"), or --include/--exclude to adjust a category"
+  );
+  console.error(
+    `Sampling: --search-sort=${SEARCH_SORTS.join("|")} (default: relevance), --posts=N per subreddit (default: 10), --comment-sort=${COMMENT_SORTS.join("|")} (default: top), --comments=N per post (default: 50)`
+  );
+  console.error(
+    "Add --source=fixture --fixtures=<dir> to read JSON fixtures instead of Reddit (default: DATA_SOURCE or reddit)"
+  );
+  console.error(
+    "Add --record=<file> to write every Reddit request to a cassette, --replay=<file> to answer them from it offline"
+  );
   process.exit(1);
 }
 
-if (process.argv[4] && !timeFilters.includes(timeFilterArg)) {
+if (process.argv[4] && !timeFilters.includes(process.argv[4] as TimeFilter)) {
   console.error(
-    `❌ Invalid time filter "${timeFilterArg}". Choose from:`,
+    `❌ Invalid time filter "${process.argv[4]}". Choose from:`,
     timeFilters.join(", ")
   );
   process.exit(1);
 }
 
-const subreddits = categories[categoryArg as Category];
-if (!subreddits) {
-  console.error(
-    `❌ Invalid category "${categoryArg}". Choose from:`,
-    Object.keys(categories).join(", ")
+let parsedQuery: ParsedQuery;
+let languageFilter: string[];
+let preprocessing: PreprocessingConfig;
+let sentimentPolicy: SentimentPolicy;
+try {
+  parsedQuery = resolveQuery(searchQuery, process.argv.includes("--expand"));
+  languageFilter = resolveLanguages(flagArg("languages"));
+  preprocessing = resolvePreprocessing(
+    flagArg("preprocessing"),
+    getPreprocessingConfig()
   );
+  sentimentPolicy = resolveSentimentPolicy(
+    { engine: flagArg("engine"), sarcasm: flagArg("sarcasm") },
+    getSentimentPolicy()
+  );
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
   process.exit(1);
 }
 
+let selection: ResolvedSubreddits;
+try {
+  selection = resolveSubreddits(
+    {
+      category: categoryArg === CUSTOM_CATEGORY ? undefined : categoryArg,
+      subreddits: parseSubredditList(flagArg("subreddits")),
+      include: parseSubredditList(flagArg("include")),
+      exclude: parseSubredditList(flagArg("exclude")),
+    },
+    toCategoryMap(categoryList)
+  );
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const { subreddits } = selection;
+
+let sampling: SamplingOptions;
+try {
+  sampling = resolveSampling(
+    {
+      searchSort: flagArg("search-sort"),
+      postLimit: flagArg("posts"),
+      commentSort: flagArg("comment-sort"),
+      commentLimit: flagArg("comments"),
+    },
+    { ...DEFAULT_SAMPLING, postLimit: 10 }
+  );
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const recordArg = flagArg("record");
+const replayArg = flagArg("replay");
+try {
+  if (recordArg) useCassette("record", recordArg);
+  else if (replayArg) useCassette("replay", replayArg);
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+// Omitted arguments fall back to the category's defaults
+const categoryDefinition = categoryList.find(
+  (category) => category.key === selection.category
+);
+const timeFilterArg =
+  (process.argv[4] as TimeFilter) ||
+  categoryDefinition?.defaultTimeframe ||
+  "week";
+const minPostScoreArg = process.argv[5]
+  ? parseInt(process.argv[5], 10)
+  : categoryDefinition?.defaultMinScore ?? 50;
+
 async function run() {
   console.log(`🚀 Starting Reddit Scraper...`);
   console.log(
-    `📊 Settings: Category: ${categoryArg}, Query: "${searchQuery}", Time Filter: ${timeFilterArg}, Min Post Score: ${minPostScoreArg}`
+    `📊 Settings: Category: ${selection.category}, Query: "${searchQuery}", Time Filter: ${timeFilterArg}, Min Post Score: ${minPostScoreArg}`
+  );
+  console.log(`📋 Subreddits: ${subreddits.join(", ")}`);
+  console.log(
+    `🎯 Sampling: ${sampling.postLimit} ${sampling.searchSort} posts per subreddit, ${sampling.commentLimit} ${sampling.commentSort} comments per post`
   );
 
   if (enableEntityAnalysis) {
@@ -62,7 +205,13 @@ async function run() {
     );
   }
 
-  const reddit = await initializeReddit();
+  const dataSourceConfig = getDataSourceConfig({
+    type: sourceArg,
+    fixtureDir: fixturesArg,
+  });
+  const dataSource = createDataSource(dataSourceConfig);
+  console.log(`📦 Data source: ${dataSource.name}`);
+  await dataSource.initialize?.();
   let nerService: NERService | null = null;
 
   if (enableEntityAnalysis) {
@@ -71,65 +220,78 @@ async function run() {
     await nerService.initialize();
   }
 
+  const { data: results, failed } = await fetchSubreddits(
+    dataSource,
+    {
+      subreddits,
+      query: parsedQuery.text,
+      parsedQuery,
+      category: selection.category,
+      timeframe: timeFilterArg,
+      minPostScore: minPostScoreArg,
+      sampling,
+      languageFilter,
+      preprocessing,
+      sentimentPolicy,
+    },
+    new RequestBudget(dataSourceConfig.expansionBudget!),
+    dataSourceConfig.concurrency!.subreddits
+  );
+  const fetchedSubreddits = new Set(results.map((data) => data.subreddit));
+  const failedSubreddits = new Set(failed.map((failure) => failure.subreddit));
   for (const subreddit of subreddits) {
-    try {
-      console.log(`\n📱 Processing r/${subreddit}...`);
+    if (failedSubreddits.has(subreddit)) {
+      console.log(`❌ Failed to fetch r/${subreddit}`);
+    } else if (!fetchedSubreddits.has(subreddit)) {
+      console.log(`⚠️ No data fetched for r/${subreddit}`);
+    }
+  }
 
-      const data = await fetchComments(
-        reddit,
-        subreddit,
-        searchQuery,
-        categoryArg,
-        timeFilterArg,
-        minPostScoreArg,
-        10
-      );
+  for (const data of results) {
+    const subreddit = data.subreddit;
+    try {
+      console.log(`\n💾 Saving r/${subreddit}...`);
+      await saveToFile(data);
 
-      if (data) {
-        await saveToFile(data);
+      // Perform entity analysis if enabled
+      if (enableEntityAnalysis && nerService) {
+        console.log(`🔍 Starting entity analysis for r/${subreddit}...`);
 
-        // Perform entity analysis if enabled
-        if (enableEntityAnalysis && nerService) {
-          console.log(`🔍 Starting entity analysis for r/${subreddit}...`);
+        try {
+          const entityAnalysis = await nerService.analyzeEntities(data);
 
-          try {
-            const entityAnalysis = await nerService.analyzeEntities(data);
+          data.entityAnalysis = entityAnalysis;
 
-            data.entityAnalysis = entityAnalysis;
+          await saveEntityAnalysis(entityAnalysis);
 
-            await saveEntityAnalysis(entityAnalysis);
+          console.log(`✅ Entity analysis completed for r/${subreddit}:`);
+          console.log(
+            `   📊 Found ${entityAnalysis.totalEntities} unique entities`
+          );
+          console.log(
+            `   🔗 ${entityAnalysis.totalMentions} total mentions across ${entityAnalysis.totalScore} total upvotes`
+          );
+          console.log(
+            `   👤 ${entityAnalysis.entityBreakdown.persons} persons, 🏢 ${entityAnalysis.entityBreakdown.organizations} organizations, 📍 ${entityAnalysis.entityBreakdown.locations} locations`
+          );
 
-            console.log(`✅ Entity analysis completed for r/${subreddit}:`);
-            console.log(
-              `   📊 Found ${entityAnalysis.totalEntities} unique entities`
-            );
-            console.log(
-              `   🔗 ${entityAnalysis.totalMentions} total mentions across ${entityAnalysis.totalScore} total upvotes`
-            );
-            console.log(
-              `   👤 ${entityAnalysis.entityBreakdown.persons} persons, 🏢 ${entityAnalysis.entityBreakdown.organizations} organizations, 📍 ${entityAnalysis.entityBreakdown.locations} locations`
-            );
-
-            const topChains = entityAnalysis.entityChains.slice(0, 3);
-            if (topChains.length > 0) {
-              console.log(
-                `   🔥 Top entities: ${topChains
-                  .map((c) => `${c.entity.text} (${c.totalScore} score)`)
-                  .join(", ")}`
-              );
-            }
-          } catch (entityError) {
-            console.error(
-              `❌ Error during entity analysis for r/${subreddit}:`,
-              entityError
-            );
+          const topChains = entityAnalysis.entityChains.slice(0, 3);
+          if (topChains.length > 0) {
             console.log(
-              "⚠️ Continuing without entity analysis for this subreddit..."
+              `   🔥 Top entities: ${topChains
+                .map((c) => `${c.entity.text} (${c.totalScore} score)`)
+                .join(", ")}`
             );
           }
+        } catch (entityError) {
+          console.error(
+            `❌ Error during entity analysis for r/${subreddit}:`,
+            entityError
+          );
+          console.log(
+            "⚠️ Continuing without entity analysis for this subreddit..."
+          );
         }
-      } else {
-        console.log(`⚠️ No data fetched for r/${subreddit}`);
       }
     } catch (error) {
       console.error(`❌ Error processing r/${subreddit}:`, error);
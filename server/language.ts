@@ -0,0 +1,356 @@
+/**
+ * Language Identification
+ *
+ * This module handles:
+ * - Identifying the language of a comment offline, from its script and
+ *   common function words
+ * - Deciding which comments the sentiment engine can score
+ * - Validating requested language filters
+ * - Summarising comments and sentiment per language
+ *
+ * Non-Latin scripts are identified by their characters. Latin-script text
+ * is compared against the most frequent words of each language, so short
+ * comments ("lol", "great game") stay undetermined. VADER only understands
+ * English; undetermined text is scored as English.
+ */
+
+import type { Discussion, RedditComment, RedditData } from "./types/reddit";
+import type {
+  LanguageBreakdown,
+  LanguageDetection,
+  LanguageStats,
+} from "./types/language";
+import { flattenCommentTree } from "./threads";
+
+export const UNDETERMINED = "und";
+
+// Languages the sentiment engine scores
+export const SENTIMENT_LANGUAGES = ["en"];
+
+const words = (...lines: string[]) => lines.join(" ").split(" ");
+
+// Frequent function words, matched against lowercased words
+const LATIN_WORDS: Record<string, string[]> = {
+  en: words(
+    "the and is are was were that this it's not you they have has",
+    "with for but what just would there about don't i'm can't your",
+    "from will been because"
+  ),
+  de: words(
+    "der die das und ist nicht ich sie es ein eine auch auf mit",
+    "sich dass aber wie noch nur wenn mal schon kann wird sind hat",
+    "doch oder zu"
+  ),
+  fr: words(
+    "le la les et est une des pas que qui pour dans sur avec mais",
+    "c'est je il nous vous sont ce plus du au aussi très ça j'ai",
+    "être"
+  ),
+  es: words(
+    "el los las y es una que por para con pero más como del lo se",
+    "muy está yo también son esto eso hay porque cuando todo ya fue",
+    "sus"
+  ),
+  it: words(
+    "il gli che è una per non sono con ma della del anche come più",
+    "questo alla nel ho hanno cosa perché molto tutto io loro",
+    "essere quando sempre"
+  ),
+  pt: words(
+    "o os as e é um uma que não com para por mais mas como do da",
+    "dos das isso está muito também eu ele você são foi tem quando"
+  ),
+  nl: words(
+    "de het een en is niet dat die van ik je zijn maar voor met ook",
+    "naar wat nog wel dan heb heeft geen als er om kan deze hij"
+  ),
+  sv: words(
+    "och att det som är inte jag en på för med har av till den men",
+    "om så var kan ett de vi du också bara eller från hade när"
+  ),
+  da: words(
+    "og at det er ikke jeg en på for med har af til den men om så",
+    "var kan et de vi du også bare eller fra hvad noget mig"
+  ),
+  no: words(
+    "og at det er ikke jeg en på for med har av til den men om så",
+    "var kan et de vi du også bare eller fra hva noe meg"
+  ),
+  pl: words(
+    "i w nie na że się jest to do jak ale co tak za od po już tylko",
+    "jego mnie może są był bo ich tego przez czy jestem dla"
+  ),
+  tr: words(
+    "ve bir bu da de için ne çok ama gibi daha olarak var yok ben",
+    "sen o mi değil ile kadar şey her olan sonra bunu nasıl neden",
+    "evet hayır"
+  ),
+  fi: words(
+    "ja on ei se että oli kun mutta niin ole myös vain jos kuin sen",
+    "tai hän minä sinä me te he tämä mitä ovat olen joka nyt vielä",
+    "jo"
+  ),
+};
+
+// Letters used by one language (or two close ones) only
+const DISTINCTIVE_LETTERS: Record<string, RegExp> = {
+  de: /ß/,
+  es: /[ñ¿¡]/,
+  pt: /[ãõ]/,
+  fr: /[œ]/,
+  pl: /[ąęłńśźż]/,
+  tr: /[ğşı]/,
+  da: /[øæ]/,
+  no: /[øæ]/,
+};
+
+// Scripts written by one language here, or by a language told apart below
+const SCRIPTS: Array<{ code: string; pattern: RegExp }> = [
+  { code: "ru", pattern: /\p{Script=Cyrillic}/gu },
+  { code: "el", pattern: /\p{Script=Greek}/gu },
+  { code: "ar", pattern: /\p{Script=Arabic}/gu },
+  { code: "he", pattern: /\p{Script=Hebrew}/gu },
+  { code: "hi", pattern: /\p{Script=Devanagari}/gu },
+  { code: "th", pattern: /\p{Script=Thai}/gu },
+  { code: "ko", pattern: /\p{Script=Hangul}/gu },
+  { code: "ja", pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { code: "zh", pattern: /\p{Script=Han}/gu },
+];
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Danish and Norwegian share most function words, they are told apart by
+// the few they do not share
+const CLOSE_LANGUAGES = [["da", "no"]];
+
+export const SUPPORTED_LANGUAGES = [
+  ...Object.keys(LATIN_WORDS),
+  ...SCRIPTS.map((script) => script.code),
+  "uk",
+  "fa",
+];
+
+// Function words needed before a Latin-script language is named
+const MIN_WORD_MATCHES = 2;
+// Confidence needed before a Latin-script language is named
+const MIN_CONFIDENCE = 0.3;
+
+const wordSets = Object.fromEntries(
+  Object.entries(LATIN_WORDS).map(([code, words]) => [code, new Set(words)])
+);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const undetermined = (): LanguageDetection => ({
+  code: UNDETERMINED,
+  confidence: 0,
+});
+
+const areClose = (a: string, b: string) =>
+  CLOSE_LANGUAGES.some((group) => group.includes(a) && group.includes(b));
+
+/**
+ * Name the script most letters are written in, when it is not Latin
+ */
+function detectScript(
+  text: string,
+  letters: number
+): LanguageDetection | null {
+  let best: { code: string; count: number } | null = null;
+  for (const { code, pattern } of SCRIPTS) {
+    const count = (text.match(pattern) || []).length;
+    if (count > 0 && (!best || count > best.count)) {
+      best = { code, count };
+    }
+  }
+  // Japanese mixes kana with Han characters
+  if (best?.code === "zh" && KANA.test(text)) {
+    best = { code: "ja", count: best.count };
+  }
+  if (!best || best.count * 2 < letters) return null;
+
+  let code = best.code;
+  if (code === "ru" && /[іїєґ]/i.test(text)) code = "uk";
+  if (code === "ar" && /[پچژگ]/.test(text)) code = "fa";
+  return { code, confidence: round(Math.min(1, best.count / letters)) };
+}
+
+/**
+ * Identify the language of a text, "und" when there is too little of it
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const cleaned = (text || "")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/\/?[ur]\/[A-Za-z0-9_-]+/g, " ")
+    .toLowerCase();
+  const letters = (cleaned.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return undetermined();
+
+  const script = detectScript(cleaned, letters);
+  if (script) return script;
+
+  const words =
+    cleaned.replace(/[’‘]/g, "'").match(/\p{L}+(?:'\p{L}+)?/gu) || [];
+  if (words.length === 0) return undetermined();
+
+  const scores = Object.keys(LATIN_WORDS)
+    .map((code) => {
+      const distinctive = DISTINCTIVE_LETTERS[code];
+      const matches = words.filter((word) => wordSets[code].has(word)).length;
+      const hints = distinctive
+        ? words.filter((word) => distinctive.test(word)).length
+        : 0;
+      return { code, matches, score: matches + hints * 0.5 };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best] = scores;
+  if (best.matches < MIN_WORD_MATCHES) return undetermined();
+
+  // How much of the text is function words, and how clearly they point to
+  // one language rather than an unrelated one
+  const rival = scores.find(
+    (score) => score.code !== best.code && !areClose(best.code, score.code)
+  );
+  const coverage = Math.min(1, (best.score / words.length) * 2);
+  const margin = (best.score - (rival?.score || 0)) / best.score;
+  const confidence = round(coverage * margin);
+  if (confidence < MIN_CONFIDENCE) return undetermined();
+
+  return { code: best.code, confidence };
+}
+
+/**
+ * Whether the sentiment engine can score text in the given language.
+ * Undetermined and undetected text is scored.
+ */
+export function isScorable(language?: LanguageDetection): boolean {
+  return (
+    !language ||
+    language.code === UNDETERMINED ||
+    SENTIMENT_LANGUAGES.includes(language.code)
+  );
+}
+
+/**
+ * Validate requested languages: a comma-separated string or a list of
+ * language codes. Returns them lowercased and sorted, empty for no filter.
+ * Throws with a user-facing message on unknown codes.
+ */
+export function resolveLanguages(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") return [];
+
+  const codes =
+    typeof value === "string"
+      ? value.split(",")
+      : Array.isArray(value) && value.every((code) => typeof code === "string")
+      ? value
+      : null;
+  if (!codes) {
+    throw new Error(`"languages" must be a list of language codes`);
+  }
+
+  const languages = [
+    ...new Set(codes.map((code) => code.trim().toLowerCase()).filter(Boolean)),
+  ].sort();
+  const unknown = languages.filter(
+    (code) => !SUPPORTED_LANGUAGES.includes(code)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown language code(s): ${unknown.join(
+        ", "
+      )}. Choose from: ${SUPPORTED_LANGUAGES.join(", ")}`
+    );
+  }
+  return languages;
+}
+
+/**
+ * Whether a comment passes a language filter. Undetermined comments are
+ * always kept.
+ */
+export function matchesLanguages(
+  language: LanguageDetection,
+  languages: readonly string[]
+): boolean {
+  return (
+    languages.length === 0 ||
+    language.code === UNDETERMINED ||
+    languages.includes(language.code)
+  );
+}
+
+function addToBreakdown(
+  totals: Map<string, { comments: number; compoundSum: number }>,
+  item: RedditComment | NonNullable<Discussion["post"]>
+) {
+  const code = item.language?.code || UNDETERMINED;
+  const total = totals.get(code) || { comments: 0, compoundSum: 0 };
+  total.comments++;
+  total.compoundSum += item.sentiment?.overall.compound || 0;
+  totals.set(code, total);
+}
+
+function toStats(
+  totals: Map<string, { comments: number; compoundSum: number }>
+): LanguageStats {
+  const breakdown: LanguageBreakdown[] = [...totals]
+    .map(([code, total]) => {
+      const scored = isScorable({ code, confidence: 0 });
+      return {
+        code,
+        comments: total.comments,
+        scored,
+        compound: scored ? round(total.compoundSum / total.comments) : null,
+      };
+    })
+    .sort((a, b) => b.comments - a.comments);
+
+  return {
+    breakdown,
+    unscored: breakdown
+      .filter((language) => !language.scored)
+      .reduce((sum, language) => sum + language.comments, 0),
+  };
+}
+
+/**
+ * Count comments and posts per language, with their average sentiment
+ */
+export function summarizeLanguages(data: RedditData): LanguageStats {
+  const totals = new Map<string, { comments: number; compoundSum: number }>();
+  for (const discussion of data.discussions) {
+    if (discussion.post) addToBreakdown(totals, discussion.post);
+    for (const comment of flattenCommentTree(discussion.comments)) {
+      addToBreakdown(totals, comment);
+    }
+  }
+  return toStats(totals);
+}
+
+/**
+ * Combine per-subreddit language breakdowns into one analysis-wide figure
+ */
+export function mergeLanguageStats(
+  dataList: RedditData[]
+): LanguageStats | undefined {
+  const stats = dataList
+    .map((data) => data.metadata.languages)
+    .filter((languages): languages is LanguageStats => !!languages);
+  if (stats.length === 0) return undefined;
+
+  const totals = new Map<string, { comments: number; compoundSum: number }>();
+  for (const { breakdown } of stats) {
+    for (const language of breakdown) {
+      const total = totals.get(language.code) || {
+        comments: 0,
+        compoundSum: 0,
+      };
+      total.comments += language.comments;
+      total.compoundSum += (language.compound || 0) * language.comments;
+      totals.set(language.code, total);
+    }
+  }
+  return toStats(totals);
+}
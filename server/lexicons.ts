@@ -0,0 +1,77 @@
+/**
+ * Slang Lexicon Management
+ *
+ * This module handles:
+ * - Loading the slang lexicons, edited ones from the database taking the
+ *   place of the files they were edited from
+ * - Saving edits with a new version, so analyses record which lexicons
+ *   they used and cached results from older versions are not reused.
+ *   Edited versions are counted apart from the files' and marked "db"
+ *   (global@db2), so they never share a version with a lexicon file.
+ */
+
+import type { SlangEntry, SlangLexicon } from "./types/slang";
+import {
+  listSlangLexicons,
+  getSlangLexiconVersion,
+  readSlangLexiconFiles,
+  resolveSlangEntries,
+  useSlangLexicons,
+} from "./slang";
+import { getSlangLexicons, saveSlangLexicon } from "./storage";
+
+/**
+ * Load the lexicon files and the edited lexicons from the database. Falls
+ * back to the files alone when the database is unavailable.
+ */
+export async function loadSlangLexicons(): Promise<SlangLexicon[]> {
+  const lexicons = new Map(
+    readSlangLexiconFiles().map((lexicon) => [lexicon.key, lexicon])
+  );
+
+  try {
+    for (const lexicon of await getSlangLexicons()) {
+      // Saved before contexts were limited to phrases, or edited by hand
+      try {
+        lexicons.set(lexicon.key, {
+          ...lexicon,
+          entries: resolveSlangEntries(lexicon.entries),
+        });
+      } catch (error: any) {
+        console.warn(
+          `⚠️ Ignoring invalid slang lexicon ${lexicon.key} from the database: ${error.message}`
+        );
+      }
+    }
+  } catch (error) {
+    console.warn(
+      "⚠️ Failed to load slang lexicons from the database, using lexicon files:",
+      error
+    );
+  }
+
+  useSlangLexicons([...lexicons.values()]);
+  console.log(
+    `📖 Loaded ${lexicons.size} slang lexicons: ${[...lexicons.values()]
+      .map(getSlangLexiconVersion)
+      .join(", ")}`
+  );
+  return [...lexicons.values()];
+}
+
+/**
+ * Replace the entries of a lexicon, creating it if needed, and use the new
+ * version for later analyses
+ */
+export async function saveSlangLexiconEntries(
+  key: string,
+  entries: SlangEntry[]
+): Promise<SlangLexicon> {
+  const saved = await saveSlangLexicon(key, entries);
+
+  useSlangLexicons([
+    ...listSlangLexicons().filter((lexicon) => lexicon.key !== key),
+    saved,
+  ]);
+  return saved;
+}
@@ -0,0 +1,223 @@
+/**
+ * Reddit Markdown
+ *
+ * This module handles:
+ * - Decoding the HTML entities Reddit escapes comment bodies with
+ * - Splitting markdown into paragraphs, quotes, code blocks and tables
+ * - Cleaning text for analysis: quoted text, code, tables, spoilers, link
+ *   URLs and /u/ or /r/ mentions are removed, link text is kept
+ * - Rendering a plain-text version for display that keeps everything the
+ *   author wrote without the markup
+ *
+ * Replies often quote the comment they answer with `>` blocks. Left in, the
+ * quoted opinion is scored as the replier's and its entities are counted
+ * twice.
+ */
+
+type BlockKind = "text" | "quote" | "code" | "table";
+
+interface Block {
+  kind: BlockKind;
+  lines: string[];
+  fence?: string; // Opening ``` or ~~~ of a fenced code block
+}
+
+const ENTITIES: Record<string, string> = {
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+  "&#x200b;": "", // Zero-width space, used by the editor for empty lines
+};
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const QUOTE = /^\s{0,3}>/;
+const INDENTED_CODE = /^( {4}|\t)/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/;
+const HORIZONTAL_RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+
+// >!hidden text!<
+const SPOILER = />!([\s\S]*?)!</g;
+// [anchor text](url "optional title"), allowing one level of parentheses
+const LINK = /\[([^\]]*)\]\((?:[^()\s]|\([^()]*\))*(?:\s+"[^"]*")?\)/g;
+const AUTOLINK = /<((?:https?:\/\/|www\.)[^>\s]+)>/g;
+const URL = /(?:https?:\/\/|www\.)\S+/g;
+// u/name, /u/name, r/name and /r/name, not inside paths or words
+const MENTION = /(^|[^\w/])\/?[ur]\/[A-Za-z0-9_-]+/g;
+
+/**
+ * Decode the entities Reddit escapes bodies with, "&gt;" → ">"
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(
+      /&(?:lt|gt|quot|nbsp|#39|#x200b);/gi,
+      (entity) => ENTITIES[entity.toLowerCase()]
+    )
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Group lines into blocks. Quotes continue until a blank line, as in
+ * Reddit's renderer, so unmarked lines right after a quote belong to it.
+ */
+function splitBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let current: Block | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (current?.fence) {
+      if (line.trim().startsWith(current.fence)) {
+        current = null;
+      } else {
+        current.lines.push(line);
+      }
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      current = { kind: "code", lines: [], fence: fence[1] };
+      blocks.push(current);
+      continue;
+    }
+
+    if (line.trim() === "") {
+      current = null;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      if (current?.kind !== "quote") {
+        current = { kind: "quote", lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line.replace(/^(\s{0,3}>\s?)+/, ""));
+      continue;
+    }
+
+    if (current?.kind === "quote") {
+      current.lines.push(line);
+      continue;
+    }
+
+    if (current?.kind === "table" && line.includes("|")) {
+      current.lines.push(line);
+      continue;
+    }
+
+    if (line.includes("|") && TABLE_DIVIDER.test(lines[i + 1] || "")) {
+      current = { kind: "table", lines: [line] };
+      blocks.push(current);
+      i++; // Skip the divider row
+      continue;
+    }
+
+    // Indented code starts after a blank line, otherwise it continues text
+    if (
+      INDENTED_CODE.test(line) &&
+      (current === null || current.kind === "code")
+    ) {
+      if (current === null) {
+        current = { kind: "code", lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line.replace(INDENTED_CODE, ""));
+      continue;
+    }
+
+    if (current?.kind !== "text") {
+      current = { kind: "text", lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  }
+
+  return blocks;
+}
+
+/**
+ * Remove inline markup from a line, keeping the words it formats
+ */
+function stripInline(line: string): string {
+  if (HORIZONTAL_RULE.test(line)) return "";
+
+  return line
+    .replace(LINK, "$1")
+    .replace(AUTOLINK, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/, "") // Headings
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "") // List markers
+    .replace(/`([^`]*)`/g, "$1") // Inline code
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2") // Bold, strikethrough
+    .replace(/(^|[^\w\\])[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, "$1$2") // Italics
+    .replace(/\^\(([^)]*)\)/g, "$1") // Superscript ^(several words)
+    .replace(/\^(?=\S)/g, "") // Superscript ^word
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~^|])/g, "$1") // Escaped characters
+    .trim();
+}
+
+const tableCells = (row: string) =>
+  row
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => stripInline(cell))
+    .filter(Boolean);
+
+const joinLines = (lines: string[]) => lines.filter(Boolean).join("\n");
+
+/**
+ * Text the author wrote themselves, for sentiment and entity analysis:
+ * quotes, code blocks, tables and spoilers are dropped, links keep their
+ * anchor text and bare URLs and user or subreddit mentions are removed
+ */
+export function cleanMarkdown(markdown: string): string {
+  return splitBlocks(decodeEntities(markdown).replace(SPOILER, " "))
+    .filter((block) => block.kind === "text")
+    .map((block) =>
+      joinLines(
+        block.lines.map((line) =>
+          stripInline(line)
+            .replace(URL, " ")
+            .replace(MENTION, "$1")
+            .replace(/[ \t]{2,}/g, " ")
+            .trim()
+        )
+      )
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Everything the comment shows, without the markup: quotes are kept behind
+ * "> ", code as written, table rows as cells separated by " | " and
+ * spoilers uncovered
+ */
+export function toPlainText(markdown: string): string {
+  return splitBlocks(decodeEntities(markdown).replace(SPOILER, "$1"))
+    .map((block) => {
+      switch (block.kind) {
+        case "quote":
+          return joinLines(
+            block.lines.map((line) => stripInline(line)).map((line) =>
+              line ? `> ${line}` : ""
+            )
+          );
+        case "code":
+          return block.lines.join("\n").trimEnd();
+        case "table":
+          return joinLines(
+            block.lines.map((row) => tableCells(row).join(" | "))
+          );
+        default:
+          return joinLines(block.lines.map((line) => stripInline(line)));
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,96 @@
+/**
+ * Reddit Metadata
+ *
+ * This module handles:
+ * - Reading comment metadata (flair, edits, moderator flags, awards, ...)
+ * - Reading post metadata (upvote ratio, flair, crossposts, NSFW/spoiler)
+ *
+ * Reddit API objects and Pushshift records share field names, so both the
+ * live source and the archive importer read metadata through here. Missing
+ * or empty fields are left out rather than stored as null.
+ */
+
+import type { CommentMetadata, PostMetadata } from "./types/reddit";
+
+const REDDIT_URL = "https://www.reddit.com";
+
+function toText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function toFlag(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && !isNaN(value) ? value : undefined;
+}
+
+/**
+ * `edited` is false, or the edit time in epoch seconds
+ */
+function toEditedTime(value: unknown): string | undefined {
+  return typeof value === "number" && value > 0
+    ? new Date(value * 1000).toISOString()
+    : undefined;
+}
+
+/**
+ * Keep the awards a comment actually received
+ */
+function toGildings(value: unknown): Record<string, number> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const gildings = Object.fromEntries(
+    Object.entries(value).filter(
+      ([, count]) => typeof count === "number" && count > 0
+    )
+  );
+  return Object.keys(gildings).length > 0 ? gildings : undefined;
+}
+
+function toAuthorName(author: unknown): string | undefined {
+  // snoowrap wraps authors in RedditUser objects, dumps store the name
+  if (author && typeof author === "object" && "name" in author) {
+    return toText((author as { name: unknown }).name);
+  }
+  return toText(author);
+}
+
+function withoutUndefined<T extends object>(fields: T): T {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+/**
+ * Read comment metadata from a Reddit API comment or Pushshift record.
+ * `depth` is set when the comment tree is built.
+ */
+export function readCommentMetadata(raw: any): CommentMetadata {
+  return withoutUndefined({
+    authorFlair: toText(raw.author_flair_text),
+    controversiality: toNumber(raw.controversiality),
+    edited: toEditedTime(raw.edited),
+    distinguished: toText(raw.distinguished),
+    stickied: toFlag(raw.stickied),
+    isSubmitter: toFlag(raw.is_submitter),
+    gildings: toGildings(raw.gildings),
+    permalink: toText(raw.permalink)
+      ? `${REDDIT_URL}${raw.permalink}`
+      : undefined,
+  });
+}
+
+/**
+ * Read post metadata from a Reddit API submission or Pushshift record
+ */
+export function readPostMetadata(raw: any): PostMetadata {
+  return withoutUndefined({
+    author: toAuthorName(raw.author),
+    upvoteRatio: toNumber(raw.upvote_ratio),
+    linkFlair: toText(raw.link_flair_text),
+    crosspostParent: toText(raw.crosspost_parent),
+    nsfw: toFlag(raw.over_18),
+    spoiler: toFlag(raw.spoiler),
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Storage for Tests
+ *
+ * This module handles:
+ * - Replacing the database module in tests, as if the database were
+ *   unavailable: built-in categories and lexicon files are used, nothing
+ *   is cached and saving fails
+ *
+ * Call mockStorage() before importing modules that use storage.
+ */
+
+import { mock } from "bun:test";
+
+const unavailable = async () => {
+  throw new Error("No database in tests");
+};
+
+export function mockStorage(): void {
+  mock.module("./storage", () => ({
+    getCachedAnalysis: async () => null,
+    saveRedditData: unavailable,
+    saveConsolidatedAnalysis: unavailable,
+    updateConsolidatedAnalysis: unavailable,
+    saveEntityAnalysis: unavailable,
+    getRecentQueries: unavailable,
+    getAnalysisById: unavailable,
+    cleanupOldAnalyses: unavailable,
+    getCategories: unavailable,
+    getCategoryByKey: unavailable,
+    createCategory: unavailable,
+    updateCategory: unavailable,
+    deleteCategory: unavailable,
+    seedCategories: unavailable,
+    getSlangLexicons: unavailable,
+    saveSlangLexicon: unavailable,
+    disconnect: async () => {},
+  }));
+}
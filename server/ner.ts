@@ -1,5 +1,4 @@
 import nlp from "compromise";
-import vader from "vader-sentiment";
 import type {
   Entity,
   EntityType,
@@ -7,6 +6,10 @@ import type {
   SubredditEntityAnalysis,
 } from "./types/entities";
 import type { RedditComment, RedditData, Discussion } from "./types/reddit";
+import type { SentimentEngine } from "./types/sentiment";
+import { getPostText } from "./preprocessing";
+import { isScorable } from "./language";
+import { getPolicyEngine } from "./sentiment";
 
 interface EntitySentimentAnalysis {
   original: {
@@ -210,30 +213,30 @@ export class NERService {
    */
   private analyzeEntitySentiment(
     entity: Entity,
-    fullText: string
+    fullText: string,
+    engine: SentimentEngine
   ): EntitySentimentAnalysis {
     // Extract context around the entity (±50 characters)
     const start = Math.max(0, entity.startIndex - 50);
     const end = Math.min(fullText.length, entity.endIndex + 50);
     const context = fullText.substring(start, end);
 
-    const vaderResult =
-      vader.SentimentIntensityAnalyzer.polarity_scores(context);
+    const result = engine.score(context);
 
     return {
       original: {
-        neg: vaderResult.neg,
-        neu: vaderResult.neu,
-        pos: vaderResult.pos,
-        compound: vaderResult.compound,
+        neg: result.neg,
+        neu: result.neu,
+        pos: result.pos,
+        compound: result.compound,
       },
       overall: {
-        neg: vaderResult.neg,
-        neu: vaderResult.neu,
-        pos: vaderResult.pos,
-        compound: vaderResult.compound,
+        neg: result.neg,
+        neu: result.neu,
+        pos: result.pos,
+        compound: result.compound,
       },
-      label: this.classifySentiment(vaderResult.compound),
+      label: this.classifySentiment(result.compound),
     };
   }
 
@@ -249,10 +252,12 @@ export class NERService {
   }
 
   /**
-   * Process Reddit comments to extract entities with scores for weighting
+   * Process Reddit posts and comments to extract entities with scores for weighting,
+   * scoring their context with the analysis's sentiment engine
    */
   async processCommentsForEntities(
-    discussions: Discussion[]
+    discussions: Discussion[],
+    engine: SentimentEngine = getPolicyEngine()
   ): Promise<EntityMention[]> {
     const allMentions: EntityMention[] = [];
 
@@ -263,18 +268,38 @@ export class NERService {
       const discussionTimestamp =
         discussion.timestamp || new Date().toISOString();
 
-      // Process comments (posts usually don't have scores in our data)
+      // The post's title and self-text, weighted by the post score
+      const postText = discussion.post?.text ?? getPostText(discussion);
+      if (postText.trim() && isScorable(discussion.post?.language)) {
+        const entities = await this.extractEntities(postText);
+        for (const entity of entities) {
+          allMentions.push({
+            entity,
+            sentiment: this.analyzeEntitySentiment(entity, postText, engine),
+            score: discussion.score || 0,
+            timestamp: discussionTimestamp,
+            postId: discussionId,
+          });
+        }
+      }
+
+      // Process comments
       for (const comment of discussion.comments) {
-        // Handle both text and body fields for backward compatibility
-        const commentText = (comment as any).body || comment.text || "";
+        // The preprocessed text leaves out quoted parent comments
+        const commentText = comment.text || (comment as any).body || "";
         const commentScore = comment.score || 0;
         const commentTimestamp =
           (comment as any).timestamp || new Date().toISOString();
 
-        if (commentText.trim()) {
+        // compromise and the sentiment engines only read English
+        if (commentText.trim() && isScorable(comment.language)) {
           const entities = await this.extractEntities(commentText);
           for (const entity of entities) {
-            const sentiment = this.analyzeEntitySentiment(entity, commentText);
+            const sentiment = this.analyzeEntitySentiment(
+              entity,
+              commentText,
+              engine
+            );
             allMentions.push({
               entity,
               sentiment,
@@ -396,7 +421,8 @@ export class NERService {
     console.log(`Starting entity analysis for r/${subreddit}...`);
 
     const mentions = await this.processCommentsForEntities(
-      redditData.discussions
+      redditData.discussions,
+      getPolicyEngine(redditData.metadata?.sentimentPolicy)
     );
     const chains = this.buildEntityChains(mentions);
 
@@ -4,15 +4,40 @@
  * This module handles:
  * - Tokenization: Breaking text into words/tokens
  * - Stopword removal: Filtering out common words that don't carry sentiment
- * - Slang detection: Identifying and normalizing internet slang
- * - Sarcasm detection: Basic detection of sarcastic patterns
+ * - Slang detection: Identifying and normalizing internet slang, from
+ *   lexicons layered by category and analysis (see slang.ts)
+ * - Sarcasm detection: Scoring sarcasm features (see sarcasm.ts)
+ * - Language detection: English stopwords and slang only apply to text
+ *   that is not identified as another language
+ * - Reddit markdown: quoted parent comments, code, tables and spoilers are
+ *   not analysed, a plain-text copy is kept for display
+ * - Emoji and emoticons: counted and replaced by words with sentiment
+ * - Optional URL removal, emoji separation and lemmatisation
+ * - Post text: titles and self-text are processed like comments
+ *
+ * Each step is a named stage. An analysis runs the stages listed in its
+ * preprocessing configuration, in that order, and records the list.
  */
 
 import type {
   RedditData,
   RedditComment,
   ProcessedComment,
+  Discussion,
 } from "./types/reddit";
+import type {
+  PreprocessingConfig,
+  PreprocessingContext,
+  PreprocessingStage,
+  PreprocessingState,
+} from "./types/preprocessing";
+import nlp from "compromise";
+import { detectLanguage, UNDETERMINED } from "./language";
+import { cleanMarkdown, toPlainText } from "./markdown";
+import { countEmoji, separateEmoji, translateEmoji } from "./emoji";
+import { applySlang, getSlangDictionary, GLOBAL_LEXICON } from "./slang";
+import { detectSarcasm } from "./sarcasm";
+import type { SlangDictionary } from "./types/slang";
 
 const STOPWORDS = new Set([
   "a",
@@ -80,200 +105,355 @@ const STOPWORDS = new Set([
   "now",
 ]);
 
-const SLANG_DICTIONARY: Record<string, string> = {
-  afaik: "as far as I know",
-  afk: "away from keyboard",
-  btw: "by the way",
-  fwiw: "for what it's worth",
-  iirc: "if I recall correctly",
-  imo: "in my opinion",
-  imho: "in my humble opinion",
-  lol: "laugh out loud",
-  rofl: "rolling on the floor laughing",
-  lmao: "laughing my ass off",
-  smh: "shaking my head",
-  tbh: "to be honest",
-  tfw: "that feeling when",
-  til: "today I learned",
-  yolo: "you only live once",
-  idk: "I don't know",
-  ngl: "not gonna lie",
-  ftw: "for the win",
-  fomo: "fear of missing out",
-  irl: "in real life",
-  tldr: "too long didn't read",
-  brb: "be right back",
-  gtg: "got to go",
-  thx: "thanks",
-  ty: "thank you",
-  np: "no problem",
-  rn: "right now",
-  omg: "oh my god",
-  wtf: "what the fuck",
-  af: "as fuck",
-  ffs: "for fuck's sake",
-  sus: "suspicious",
-  based: "agreeable",
-  cringe: "embarrassing",
-  yeet: "throw forcefully",
-  poggers: "excellent",
-  pog: "play of the game",
-  goat: "greatest of all time",
-  cap: "lie",
-  "no cap": "no lie",
-  lit: "exciting",
-  fire: "excellent",
-  salty: "upset",
-  toxic: "harmful",
-  simp: "overly devoted",
-  stan: "obsessive fan",
-  woke: "socially aware",
-  ghosted: "ignored",
-  triggered: "upset",
-  boomer: "older person",
-  karen: "entitled person",
-  chad: "alpha male",
-  incel: "involuntary celibate",
-  normie: "mainstream person",
-  noob: "newbie",
-  troll: "provocateur",
-  meme: "internet joke",
-  copypasta: "copied text",
-  doomscrolling: "consuming negative news",
-  facepalm: "disappointment gesture",
-  feels: "emotions",
-  flex: "show off",
-  lowkey: "subtly",
-  highkey: "obviously",
-  mood: "relatable",
-  ratio: "negative response",
-  "rent free": "obsessively thinking about",
-  vibe: "atmosphere",
-  vibing: "enjoying",
-  yikes: "expression of dismay",
-  oof: "expression of discomfort",
-};
-
-const SARCASM_INDICATORS = [
-  /\b(yeah right|sure thing|totally)\b/i,
-  /\b(of course|obviously)\s+.*\s+(not|never)\b/i,
-  /\b(right|sure)\s+\w+\s+\w+\s+(not|never)\b/i,
-  /\b(oh great|fantastic|wonderful|brilliant)\s+.*\s+(fail|broke|wrong|bad)\b/i,
-  /\b(thanks|thank you)\s+.*\s+(nothing|useless|broken)\b/i,
-  /\b(just|exactly)\s+what\s+(I|we)\s+(need|want|love)\b.*\s+(not|never)\b/i,
-  /\"/g,
-  /\*.*\*/g,
-  /\b[A-Z][a-z]*([A-Z][a-z]*)+\b/g,
-  /\b([a-z]+[A-Z])+[a-z]*\b/g,
-  /\b(lol|lmao|rofl|haha)\s+.*\s+(terrible|awful|worst|bad|stupid)\b/i,
-];
-
 export function tokenize(text: string): string[] {
-  const withoutUrls = text.replace(/https?:\/\/\S+/g, "");
+  const withoutUrls = text.replace(/(?:https?:\/\/|www\.)\S+/g, "");
 
   // Keep punctuation and capitalization for VADER sentiment analysis
   return withoutUrls
     .replace(/\s+/g, " ")
     .trim()
     .split(" ")
-    .filter((token) => token.length > 0);
+    .filter((token) => token.length > 0 && !/^\/?[ur]\/\w/.test(token));
 }
 
 export function removeStopwords(tokens: string[]): string[] {
   return tokens.filter((token) => !STOPWORDS.has(token.toLowerCase()));
 }
 
-export function normalizeSlang(tokens: string[]): string[] {
-  return tokens.map((token) => {
-    const normalized = SLANG_DICTIONARY[token.toLowerCase()];
-    return normalized ? normalized : token;
-  });
+/**
+ * Replace slang terms and phrases by their meaning. Uses the global lexicon
+ * unless given the dictionary of an analysis.
+ */
+export function normalizeSlang(
+  tokens: string[],
+  slang: SlangDictionary = getSlangDictionary(GLOBAL_LEXICON),
+  text?: string
+): string[] {
+  return applySlang(tokens, slang, text);
 }
 
-export function detectSarcasm(text: string): {
-  isSarcastic: boolean;
-  confidence: number;
-} {
-  let sarcasmScore = 0;
-  const maxScore = SARCASM_INDICATORS.length;
+export function removeUrls(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
 
-  SARCASM_INDICATORS.forEach((pattern) => {
-    if (pattern.test(text)) {
-      sarcasmScore++;
-    }
-  });
+/**
+ * Replace words by their root form: "running" → "run", "cats" → "cat"
+ */
+export function lemmatize(tokens: string[]): string[] {
+  if (tokens.length === 0) return tokens;
 
-  // Check for excessive punctuation patterns
-  if (/(!{2,}|\?{2,})/g.test(text)) {
-    sarcasmScore += 0.5;
+  const doc = nlp(tokens.join(" "));
+  doc.compute("root");
+  const roots = new Map<string, string>();
+  // "root" is computed above but missing from the json option types
+  for (const sentence of doc.json({ terms: { root: true } } as any)) {
+    for (const term of sentence.terms) {
+      if (term.root) roots.set(term.text.toLowerCase(), term.root);
+    }
   }
 
-  if (/\.{3,}/g.test(text)) {
-    sarcasmScore += 0.5;
+  return tokens.map((token) =>
+    token.replace(
+      /[\p{L}\p{N}']+/gu,
+      (word) => roots.get(word.toLowerCase()) ?? word
+    )
+  );
+}
+
+// English stopwords, slang and lemmas do not apply to other languages
+const isEnglish = (state: PreprocessingState) =>
+  !state.language ||
+  state.language.code === "en" ||
+  state.language.code === UNDETERMINED;
+
+const stages = new Map<string, PreprocessingStage>();
+
+/**
+ * Make a stage available to preprocessing configurations by its name.
+ * Registering a name again replaces the stage.
+ */
+export function registerPreprocessingStage(stage: PreprocessingStage): void {
+  stages.set(stage.name, stage);
+}
+
+export function getPreprocessingStages(): PreprocessingStage[] {
+  return [...stages.values()];
+}
+
+registerPreprocessingStage({
+  name: "stripMarkdown",
+  description:
+    "Remove quoted text, code, tables, spoilers, link URLs and mentions, " +
+    "keeping a plain-text copy for display",
+  run: (state) => {
+    state.plainText = toPlainText(state.text);
+    state.text = cleanMarkdown(state.text);
+  },
+});
+
+registerPreprocessingStage({
+  name: "removeUrls",
+  description: "Remove links from the text",
+  run: (state) => {
+    state.text = removeUrls(state.text);
+  },
+});
+
+registerPreprocessingStage({
+  name: "handleEmoji",
+  description: "Split emoji from adjoining words into tokens of their own",
+  run: (state) => {
+    state.text = separateEmoji(state.text);
+  },
+});
+
+registerPreprocessingStage({
+  name: "detectLanguage",
+  description: "Identify the language of the text",
+  run: (state) => {
+    state.language = detectLanguage(state.text);
+  },
+});
+
+registerPreprocessingStage({
+  name: "translateEmoji",
+  description:
+    "Count emoji and emoticons and replace them with words the sentiment " +
+    "engine scores, with meanings per category",
+  run: (state, context) => {
+    const counts = countEmoji(state.text);
+    if (Object.keys(counts).length > 0) state.emoji = counts;
+    state.text = translateEmoji(state.text, context.category);
+  },
+});
+
+registerPreprocessingStage({
+  name: "tokenize",
+  description: "Split the text into tokens, dropping links",
+  run: (state) => {
+    state.tokens = tokenize(state.text);
+    state.tokensWithoutStopwords = state.tokens;
+    state.normalizedTokens = state.tokens;
+  },
+});
+
+registerPreprocessingStage({
+  name: "normalizeSlang",
+  description:
+    "Replace slang with its meaning, from the global lexicon, the " +
+    "category's lexicon and the analysis's own entries",
+  run: (state, context) => {
+    if (!isEnglish(state)) return;
+    state.normalizedTokens = normalizeSlang(
+      state.normalizedTokens,
+      context.slang,
+      state.text
+    );
+    // Tokens lose case, punctuation and stopwords like "not", which the
+    // sentiment engine needs, so the text is normalized too
+    state.normalizedText = normalizeSlang(
+      state.text.split(/\s+/).filter(Boolean),
+      context.slang,
+      state.text
+    ).join(" ");
+  },
+});
+
+registerPreprocessingStage({
+  name: "removeStopwords",
+  description: "Drop English stopwords from the tokens",
+  run: (state) => {
+    if (!isEnglish(state)) return;
+    state.tokensWithoutStopwords = removeStopwords(state.normalizedTokens);
+    state.normalizedTokens = state.tokensWithoutStopwords;
+  },
+});
+
+registerPreprocessingStage({
+  name: "lemmatize",
+  description: "Reduce English tokens to their root form",
+  run: (state) => {
+    if (!isEnglish(state)) return;
+    state.normalizedTokens = lemmatize(state.normalizedTokens);
+  },
+});
+
+registerPreprocessingStage({
+  name: "detectSarcasm",
+  description:
+    "Score sarcasm from /s markers, stock phrases, punctuation, contrast, " +
+    "emoji and capitalization",
+  run: (state) => {
+    state.sarcasm = detectSarcasm(state.text, state.emoji);
+  },
+});
+
+export const DEFAULT_PREPROCESSING: PreprocessingConfig = {
+  stages: [
+    "stripMarkdown",
+    "detectLanguage",
+    "translateEmoji",
+    "tokenize",
+    "normalizeSlang",
+    "removeStopwords",
+    "detectSarcasm",
+  ],
+};
+
+/**
+ * Validate a list of stage names, given as a list or comma-separated.
+ * Returns `defaults` when nothing is given. Throws with a user-facing
+ * message on unknown or repeated stages.
+ */
+export function resolvePreprocessing(
+  value: unknown,
+  defaults: PreprocessingConfig = DEFAULT_PREPROCESSING
+): PreprocessingConfig {
+  if (value === undefined || value === null) return defaults;
+
+  const names =
+    typeof value === "string"
+      ? value.split(",").map((name) => name.trim()).filter(Boolean)
+      : Array.isArray(value) && value.every((name) => typeof name === "string")
+      ? value
+      : null;
+  if (!names) {
+    throw new Error(`"preprocessing" must be a list of stage names`);
   }
 
-  // Check for repetitive affirmative words (often sarcastic)
-  if (/\b(yeah|sure|right)[\s,]+(yeah|sure|right)\b/i.test(text)) {
-    sarcasmScore += 1;
+  const unknown = names.filter((name) => !stages.has(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown preprocessing stage(s): ${unknown.join(
+        ", "
+      )}. Choose from: ${[...stages.keys()].join(", ")}`
+    );
+  }
+  const repeated = names.filter((name, index) => names.indexOf(name) !== index);
+  if (repeated.length > 0) {
+    throw new Error(
+      `Preprocessing stage(s) listed more than once: ${[
+        ...new Set(repeated),
+      ].join(", ")}`
+    );
   }
 
-  const confidence = (sarcasmScore / maxScore) * 100;
+  return { stages: names };
+}
 
-  return {
-    isSarcastic: confidence > 30,
-    confidence,
-  };
+/**
+ * Read the default pipeline from PREPROCESSING_STAGES (comma-separated
+ * stage names), falling back to DEFAULT_PREPROCESSING
+ */
+export function getPreprocessingConfig(): PreprocessingConfig {
+  return resolvePreprocessing(process.env.PREPROCESSING_STAGES || undefined);
 }
 
+/**
+ * Look up the stages of a configuration, in order
+ */
+export function createPipeline(
+  config: PreprocessingConfig
+): PreprocessingStage[] {
+  return resolvePreprocessing(config.stages).stages.map(
+    (name) => stages.get(name)!
+  );
+}
+
+/**
+ * Run text through the pipeline. Stages that change the text only affect
+ * tokens when they run before "tokenize"; sentiment is scored on the final
+ * text, with slang replaced when "normalizeSlang" ran.
+ */
 export function preprocessText(
-  text: string
+  text: string,
+  pipeline: PreprocessingStage[] = createPipeline(DEFAULT_PREPROCESSING),
+  context: PreprocessingContext = {
+    category: "",
+    slang: getSlangDictionary(GLOBAL_LEXICON),
+  }
 ): Omit<ProcessedComment, "sentiment"> {
-  if (!text || text.trim() === "") {
-    return {
-      text: text || "",
-      original: text || "",
-      processed: "",
-      tokens: [],
-      tokensWithoutStopwords: [],
-      normalizedTokens: [],
-      sarcasm: {
-        isSarcastic: false,
-        confidence: 0,
-      },
-    };
+  const state: PreprocessingState = {
+    original: text || "",
+    text: text || "",
+    tokens: [],
+    tokensWithoutStopwords: [],
+    normalizedTokens: [],
+    sarcasm: {
+      isSarcastic: false,
+      confidence: 0,
+    },
+  };
+
+  if (state.text.trim() !== "") {
+    for (const stage of pipeline) {
+      stage.run(state, context);
+    }
   }
 
-  const tokens = tokenize(text);
-  const tokensWithoutStopwords = removeStopwords(tokens);
-  const normalizedTokens = normalizeSlang(tokensWithoutStopwords);
-  const processed = normalizedTokens.join(" ");
-  const sarcasm = detectSarcasm(text);
+  return {
+    ...state,
+    processed: state.normalizedTokens.join(" "),
+  };
+}
+
+function preprocessComment(
+  comment: RedditComment,
+  pipeline: PreprocessingStage[],
+  context: PreprocessingContext
+): RedditComment {
+  return {
+    ...comment,
+    // Start from the text as written, also when preprocessing again
+    ...preprocessText(comment.body ?? comment.text, pipeline, context),
+    replies: (comment.replies || []).map((reply) =>
+      preprocessComment(reply, pipeline, context)
+    ),
+  };
+}
+
+/**
+ * Text of the submission itself: the title, followed by the self-text if any
+ */
+export function getPostText(discussion: Discussion): string {
+  return discussion.content
+    ? `${discussion.title}\n\n${discussion.content}`
+    : discussion.title;
+}
 
+function preprocessPost(
+  discussion: Discussion,
+  pipeline: PreprocessingStage[],
+  context: PreprocessingContext
+): ProcessedComment {
   return {
-    text,
-    original: text,
-    processed,
-    tokens,
-    tokensWithoutStopwords,
-    normalizedTokens,
-    sarcasm,
+    ...preprocessText(getPostText(discussion), pipeline, context),
+    score: discussion.score,
   };
 }
 
+/**
+ * Preprocess posts and comments at every depth with the pipeline in
+ * `metadata.preprocessing`, recording the default one when none is set
+ */
 export function preprocessRedditData(data: RedditData): RedditData {
+  const config = data.metadata.preprocessing || getPreprocessingConfig();
+  const pipeline = createPipeline(config);
+  const slang = getSlangDictionary(data.category, data.metadata.customSlang);
+  const context: PreprocessingContext = { category: data.category, slang };
+
   data.discussions = data.discussions.map((discussion) => ({
     ...discussion,
-    comments: discussion.comments.map((comment) => ({
-      ...comment,
-      ...preprocessText(comment.text),
-      replies:
-        comment.replies?.map((reply) => ({
-          ...reply,
-          ...preprocessText(reply.text),
-          replies: reply.replies || [],
-        })) || [],
-    })),
+    post: preprocessPost(discussion, pipeline, context),
+    comments: discussion.comments.map((comment) =>
+      preprocessComment(comment, pipeline, context)
+    ),
   }));
+  data.metadata.preprocessing = config;
+  data.metadata.slangVersion = slang.version;
 
   return data;
 }
@@ -283,6 +463,9 @@ export default {
   removeStopwords,
   normalizeSlang,
   detectSarcasm,
+  removeUrls,
+  lemmatize,
   preprocessText,
+  getPostText,
   preprocessRedditData,
 };
@@ -0,0 +1,385 @@
+/**
+ * Structured Search Queries
+ *
+ * This module handles:
+ * - Parsing queries with OR-lists, required (+) and excluded (-, NOT) terms
+ *   and quoted phrases
+ * - Optional synonym expansion ("GTA VI" ↔ "GTA 6")
+ * - Building the Reddit search string for a parsed query
+ * - Matching posts and comments against the query locally, to flag
+ *   discussions that are only loosely related
+ *
+ * Plain words are all required, as in Reddit search. OR joins the terms on
+ * either side into one list of alternatives: `rust OR golang async` needs
+ * "async" and one of "rust" or "golang". Terms match whole words, ignoring
+ * case.
+ */
+
+import type { RedditComment, RedditData } from "./types/reddit";
+import type { ParsedQuery, QueryMatch, QueryTerm } from "./types/query";
+
+// Terms that mean the same thing, matched as whole words or phrases
+export const DEFAULT_SYNONYMS: string[][] = [
+  ["gta vi", "gta 6", "gta6", "grand theft auto vi", "grand theft auto 6"],
+  ["ai", "artificial intelligence"],
+  ["ml", "machine learning"],
+  ["llm", "large language model"],
+  ["js", "javascript"],
+  ["ts", "typescript"],
+  ["ps5", "playstation 5"],
+  ["eu", "european union"],
+  ["uk", "united kingdom"],
+  ["nyc", "new york city"],
+];
+
+// Sequel numbers written either way after a title word: "vi" ↔ "6"
+const ROMAN_NUMERALS = [
+  "ii",
+  "iii",
+  "iv",
+  "v",
+  "vi",
+  "vii",
+  "viii",
+  "ix",
+  "x",
+  "xi",
+  "xii",
+  "xiii",
+  "xiv",
+  "xv",
+  "xvi",
+  "xvii",
+  "xviii",
+  "xix",
+  "xx",
+];
+
+// Longest synonym phrase looked for among consecutive plain words
+const MAX_SYNONYM_WORDS = 5;
+
+interface QueryToken {
+  text: string;
+  phrase: boolean;
+  prefix: "" | "+" | "-";
+  operator?: "OR" | "NOT";
+}
+
+function tokenize(text: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  for (const match of text.matchAll(/([+-]?)"([^"]*)"?|(\S+)/g)) {
+    const [, quotedPrefix, quoted, word] = match;
+
+    if (quoted !== undefined) {
+      const phrase = quoted.trim().toLowerCase().replace(/\s+/g, " ");
+      if (phrase) {
+        tokens.push({
+          text: phrase,
+          phrase: true,
+          prefix: quotedPrefix as QueryToken["prefix"],
+        });
+      }
+      continue;
+    }
+
+    if (word === "OR" || word === "|") {
+      tokens.push({ text: word, phrase: false, prefix: "", operator: "OR" });
+    } else if (word === "NOT") {
+      tokens.push({ text: word, phrase: false, prefix: "", operator: "NOT" });
+    } else if (word !== "AND") {
+      const prefix = /^[+-]./.test(word) ? word[0] : "";
+      const text = word.slice(prefix.length).toLowerCase();
+      if (/[\p{L}\p{N}]/u.test(text)) {
+        tokens.push({
+          text,
+          phrase: false,
+          prefix: prefix as QueryToken["prefix"],
+        });
+      }
+    }
+  }
+  return tokens;
+}
+
+function toNumeralVariant(text: string): string | null {
+  const match = text.match(/^(.*\S)\s+(\S+)$/);
+  if (!match) return null;
+  const [, head, numeral] = match;
+
+  const romanIndex = ROMAN_NUMERALS.indexOf(numeral);
+  if (romanIndex >= 0) return `${head} ${romanIndex + 2}`;
+
+  const number = Number(numeral);
+  if (Number.isInteger(number) && number >= 2 && number <= 20) {
+    return `${head} ${ROMAN_NUMERALS[number - 2]}`;
+  }
+  return null;
+}
+
+function isNumeral(word: string): boolean {
+  return toNumeralVariant(`_ ${word}`) !== null;
+}
+
+function findSynonyms(text: string, synonyms: string[][]): string[] {
+  const group = synonyms.find((members) => members.includes(text)) || [text];
+  const variants = group.flatMap((member) => {
+    const variant = toNumeralVariant(member);
+    return variant ? [member, variant] : [member];
+  });
+  return [...new Set(variants)].filter((variant) => variant !== text);
+}
+
+/**
+ * Join consecutive plain words that form a known synonym phrase, or a
+ * word and a sequel number, into one phrase token
+ */
+function joinSynonymPhrases(
+  tokens: QueryToken[],
+  synonyms: string[][]
+): QueryToken[] {
+  const known = new Set(synonyms.flat());
+  const isPlain = (token?: QueryToken) =>
+    !!token && !token.phrase && !token.prefix && !token.operator;
+
+  const joined: QueryToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPlain(tokens[i])) {
+      joined.push(tokens[i]);
+      continue;
+    }
+
+    let length = 1;
+    for (let size = MAX_SYNONYM_WORDS; size > 1; size--) {
+      const words = tokens.slice(i, i + size);
+      if (
+        words.length === size &&
+        words.every((token) => isPlain(token)) &&
+        known.has(words.map((token) => token.text).join(" "))
+      ) {
+        length = size;
+        break;
+      }
+    }
+    if (
+      length === 1 &&
+      isPlain(tokens[i + 1]) &&
+      isNumeral(tokens[i + 1].text)
+    ) {
+      length = 2;
+    }
+
+    joined.push({
+      text: tokens
+        .slice(i, i + length)
+        .map((token) => token.text)
+        .join(" "),
+      phrase: length > 1,
+      prefix: "",
+    });
+    i += length - 1;
+  }
+  return joined;
+}
+
+function toSearchTerm(term: QueryTerm): string {
+  const alternatives = [term.text, ...term.synonyms].map((alternative) =>
+    term.phrase || alternative.includes(" ") ? `"${alternative}"` : alternative
+  );
+  return alternatives.length > 1
+    ? `(${alternatives.join(" OR ")})`
+    : alternatives[0];
+}
+
+/**
+ * The Reddit search string for a parsed query. Queries of plain words are
+ * sent as they are.
+ */
+function toRedditSearch(
+  required: QueryTerm[],
+  anyOf: QueryTerm[][],
+  excluded: QueryTerm[]
+): string {
+  const structured =
+    anyOf.length > 0 ||
+    excluded.length > 0 ||
+    required.some((term) => term.phrase || term.synonyms.length > 0);
+  if (!structured) {
+    return required.map((term) => term.text).join(" ");
+  }
+
+  return [
+    ...required.map(toSearchTerm),
+    ...anyOf.map((group) => `(${group.map(toSearchTerm).join(" OR ")})`),
+    ...excluded.map((term) => `NOT ${toSearchTerm(term)}`),
+  ].join(" ");
+}
+
+/**
+ * Parse a search query. With `expandSynonyms`, known synonyms and sequel
+ * numbers are added as alternatives of each term.
+ */
+export function parseQuery(
+  text: string,
+  expandSynonyms: boolean = false,
+  synonyms: string[][] = DEFAULT_SYNONYMS
+): ParsedQuery {
+  const tokens = expandSynonyms
+    ? joinSynonymPhrases(tokenize(text), synonyms)
+    : tokenize(text);
+
+  const units: Array<{ excluded: boolean; terms: QueryTerm[] }> = [];
+  let negate = false;
+  let joinNext = false;
+
+  for (const token of tokens) {
+    const last = units[units.length - 1];
+    if (token.operator === "OR") {
+      joinNext = !!last && !last.excluded;
+      continue;
+    }
+    if (token.operator === "NOT") {
+      negate = true;
+      continue;
+    }
+
+    const term: QueryTerm = {
+      text: token.text,
+      phrase: token.phrase,
+      synonyms: expandSynonyms ? findSynonyms(token.text, synonyms) : [],
+    };
+    const excluded = negate || token.prefix === "-";
+    if (joinNext && !excluded) {
+      units[units.length - 1].terms.push(term);
+    } else {
+      units.push({ excluded, terms: [term] });
+    }
+    negate = false;
+    joinNext = false;
+  }
+
+  const required = units
+    .filter((unit) => !unit.excluded && unit.terms.length === 1)
+    .map((unit) => unit.terms[0]);
+  const anyOf = units
+    .filter((unit) => !unit.excluded && unit.terms.length > 1)
+    .map((unit) => unit.terms);
+  const excluded = units
+    .filter((unit) => unit.excluded)
+    .flatMap((unit) => unit.terms);
+
+  return {
+    text: text.trim(),
+    required,
+    anyOf,
+    excluded,
+    expanded: expandSynonyms,
+    search: toRedditSearch(required, anyOf, excluded),
+  };
+}
+
+/**
+ * Parse a query from request input, rejecting queries that could not
+ * match anything
+ */
+export function resolveQuery(
+  text: unknown,
+  expandSynonyms: unknown = false
+): ParsedQuery {
+  if (typeof text !== "string" || !text.trim()) {
+    throw new Error("Query is required");
+  }
+  if (typeof expandSynonyms !== "boolean") {
+    throw new Error("expandSynonyms must be true or false");
+  }
+
+  const query = parseQuery(text, expandSynonyms);
+  if (query.required.length === 0 && query.anyOf.length === 0) {
+    throw new Error(
+      `Query "${query.text}" has no terms to search for, only excluded ones`
+    );
+  }
+  return query;
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function toPattern(term: QueryTerm): RegExp {
+  const alternatives = [term.text, ...term.synonyms].map((alternative) =>
+    escapeRegExp(alternative).replace(/ /g, "\\s+")
+  );
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`,
+    "iu"
+  );
+}
+
+/**
+ * Build a matcher for a parsed query, compiling its patterns once
+ */
+export function createQueryMatcher(
+  query: ParsedQuery
+): (text: string) => boolean {
+  const required = query.required.map(toPattern);
+  const anyOf = query.anyOf.map((group) => group.map(toPattern));
+  const excluded = query.excluded.map(toPattern);
+
+  return (text) =>
+    required.every((pattern) => pattern.test(text)) &&
+    anyOf.every((group) => group.some((pattern) => pattern.test(text))) &&
+    !excluded.some((pattern) => pattern.test(text));
+}
+
+export function matchesQuery(text: string, query: ParsedQuery): boolean {
+  return createQueryMatcher(query)(text);
+}
+
+function countMatchingComments(
+  comments: RedditComment[],
+  matches: (text: string) => boolean
+): number {
+  return comments.reduce(
+    (count, comment) =>
+      count +
+      (matches(comment.body ?? comment.text ?? "") ? 1 : 0) +
+      countMatchingComments(comment.replies || [], matches),
+    0
+  );
+}
+
+/**
+ * Check every post and comment against the query and flag discussions in
+ * which neither the post nor any comment matches
+ */
+export function flagQueryMatches(
+  data: RedditData,
+  query: ParsedQuery = data.metadata.parsedQuery ?? parseQuery(data.query)
+): RedditData {
+  const matches = createQueryMatcher(query);
+
+  for (const discussion of data.discussions) {
+    const post = matches(`${discussion.title}\n${discussion.content || ""}`);
+    const matchingComments = countMatchingComments(
+      discussion.comments,
+      matches
+    );
+    const queryMatch: QueryMatch = {
+      post,
+      matchingComments,
+      looselyRelated: !post && matchingComments === 0,
+    };
+    discussion.queryMatch = queryMatch;
+  }
+
+  const loose = data.discussions.filter(
+    (discussion) => discussion.queryMatch?.looselyRelated
+  ).length;
+  if (loose > 0) {
+    console.log(
+      `🔎 ${loose}/${data.discussions.length} discussions in r/${data.subreddit} only loosely match "${query.text}"`
+    );
+  }
+
+  data.metadata.parsedQuery = query;
+  return data;
+}
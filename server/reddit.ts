@@ -1,220 +1,448 @@
-import snoowrap from "snoowrap";
-import dotenv from "dotenv";
-import type { RedditData, RedditComment } from "./types/reddit";
-import axios from "axios";
+import type {
+  RedditData,
+  RedditComment,
+  Discussion,
+  SubredditFailure,
+} from "./types/reddit";
+import type {
+  CommentTreeOptions,
+  DataSource,
+  DataSourceConfig,
+  DataSourceRequest,
+  SubredditsRequest,
+} from "./types/datasource";
 import type Snoowrap from "snoowrap";
+import { getRedditClient } from "./client";
 import { preprocessRedditData } from "./preprocessing";
+import { filterRedditData } from "./filters";
+import { flagQueryMatches } from "./query";
+import { readCommentMetadata, readPostMetadata } from "./metadata";
 import { saveRedditData } from "./storage";
 import { analyzeRedditData } from "./sentiment";
+import { buildCommentTree, DEFAULT_COMMENT_TREE_OPTIONS } from "./threads";
+import {
+  mapWithConcurrency,
+  DEFAULT_COMMENT_CONCURRENCY,
+  DEFAULT_SUBREDDIT_CONCURRENCY,
+} from "./scheduler";
+import {
+  buildRedditData,
+  summarizeCoverage,
+  RequestBudget,
+  DEFAULT_EXPANSION_BUDGET,
+  FixtureDataSource,
+  MemoryDataSource,
+  getDataSourceConfig,
+} from "./datasource";
 
-dotenv.config();
+/**
+ * Return the shared, rate-limit aware Reddit client. Tokens are cached
+ * across analyses and only refreshed when they are about to expire.
+ */
+export async function initializeReddit(): Promise<Snoowrap> {
+  return getRedditClient();
+}
 
-const CLIENT_ID = process.env.CLIENT_ID!;
-const CLIENT_SECRET = process.env.CLIENT_SECRET!;
-const USER_AGENT = process.env.USER_AGENT!;
+/**
+ * Flatten snoowrap comments and their nested reply listings. Listings that
+ * still hold collapsed "load more" children are collected into `stubs`.
+ */
+function flattenComments(
+  comments: any[],
+  flat: RedditComment[] = [],
+  stubs: any[] = []
+): RedditComment[] {
+  for (const comment of comments) {
+    if (!comment || typeof comment.body !== "string") continue;
 
-const TOKEN_URL = "https://www.reddit.com/api/v1/access_token";
+    flat.push({
+      id: comment.id,
+      text: comment.body,
+      body: comment.body,
+      processed: "",
+      normalizedTokens: [],
+      score: comment.score,
+      author: comment.author ? comment.author.name : "[deleted]",
+      timestamp: new Date(comment.created_utc * 1000).toISOString(),
+      parentId: comment.parent_id,
+      replies: [],
+      ...readCommentMetadata(comment),
+    });
 
-async function getAccessToken(): Promise<string | null> {
-  try {
-    const response = await axios.post(
-      TOKEN_URL,
-      new URLSearchParams({
-        grant_type: "client_credentials",
-      }),
-      {
-        auth: {
-          username: CLIENT_ID,
-          password: CLIENT_SECRET,
-        },
-        headers: {
-          "User-Agent": USER_AGENT,
-        },
+    // snoowrap replies might be a Listing object
+    let replies: any[] = [];
+    if (comment.replies && comment.replies.length > 0) {
+      try {
+        replies = Array.from(comment.replies);
+      } catch (error) {
+        replies = [];
       }
-    );
-
-    console.log("✅ Access Token:", response.data.access_token);
-    return response.data.access_token;
-  } catch (error: any) {
-    console.error(
-      "❌ Failed to get access token:",
-      error.response?.data || error.message
-    );
-    return null;
+    }
+    if (comment.replies && comment.replies.isFinished === false) {
+      stubs.push(comment.replies);
+    }
+    flattenComments(replies, flat, stubs);
   }
+
+  return flat;
 }
 
-export async function initializeReddit() {
-  const accessToken = await getAccessToken();
-  if (!accessToken) {
-    throw new Error("Failed to get access token");
-  }
+// Comments loaded per "load more" call, /api/morechildren caps at 20
+const MORE_COMMENTS_BATCH = 20;
 
-  return new snoowrap({
-    userAgent: USER_AGENT,
-    clientId: CLIENT_ID,
-    clientSecret: CLIENT_SECRET,
-    accessToken: accessToken,
-  });
+interface PendingThread {
+  comments: RedditComment[]; // Every comment fetched so far, flat
+  stubs: any[]; // snoowrap Listings with collapsed children left
 }
 
-async function fetchComments(
-  reddit: Snoowrap,
-  subredditName: string,
-  query: string,
-  category: string,
-  timeFilter: "hour" | "day" | "week" | "month" | "year" | "all" = "week",
-  minPostScore: number = 50,
-  limit: number = 10
-): Promise<RedditData | null> {
-  try {
-    console.log(
-      `🔍 Fetching posts from r/${subredditName} for query: "${query}" (last ${timeFilter}, min post score: ${minPostScore})`
-    );
+/**
+ * Live data source backed by the Reddit search and comment APIs
+ */
+export class RedditDataSource implements DataSource {
+  name = "reddit";
+  private reddit: Snoowrap | null = null;
+  private pending = new Map<string, PendingThread>();
+
+  constructor(
+    private treeOptions: CommentTreeOptions = DEFAULT_COMMENT_TREE_OPTIONS,
+    private commentConcurrency: number = DEFAULT_COMMENT_CONCURRENCY
+  ) {}
+
+  async initialize(): Promise<void> {
+    this.reddit = await initializeReddit();
+  }
+
+  async fetch(request: DataSourceRequest): Promise<RedditData | null> {
+    if (!this.reddit) {
+      await this.initialize();
+    }
+    const reddit = this.reddit!;
+    const { subreddit: subredditName, query, minPostScore, sampling } =
+      request;
+    const timeFilter = request.timeframe;
+
     const subreddit = reddit.getSubreddit(subredditName);
     const searchOptions: any = {
-      query,
-      sort: "relevance",
+      query: request.parsedQuery?.search ?? query,
+      sort: sampling.searchSort,
       time: timeFilter,
-      limit: limit * 2,
+      limit: sampling.postLimit * 2,
     };
     const posts = await subreddit.search(searchOptions);
 
-    const filteredPosts = posts.filter((post) => post.score >= minPostScore);
+    // Keep Reddit's order for the requested sort
+    const selectedPosts = posts
+      .filter((post) => post.score >= minPostScore)
+      .slice(0, sampling.postLimit);
 
-    const sortedPosts = filteredPosts
-      .sort((a, b) => b.created_utc - a.created_utc)
-      .slice(0, limit);
-
-    if (!sortedPosts.length) {
-      console.log(
-        `⚠ No posts found for "${query}" in r/${subredditName} with minimum score ${minPostScore} in the last ${timeFilter}`
-      );
+    if (!selectedPosts.length) {
       return null;
     }
 
-    const postData: RedditData = {
-      subreddit: subredditName,
-      query,
-      category: category,
-      metadata: {
-        query,
-        timeframe: timeFilter,
-        minScore: minPostScore,
-        totalComments: 0,
-        totalDiscussions: 0,
-        scrapedAt: new Date().toISOString(),
-      },
-      discussions: [],
-    };
+    // Posts are fetched concurrently but kept in their search order
+    const discussions: Discussion[] = await mapWithConcurrency(
+      selectedPosts,
+      this.commentConcurrency,
+      async (post): Promise<Discussion> => {
+        const postTitle = post.title;
+        const postUrl = `https://www.reddit.com${post.permalink}`;
+        const postDate = new Date(post.created_utc * 1000)
+          .toISOString()
+          .split("T")[0];
+        const postScore = post.score;
 
-    for (const post of sortedPosts) {
-      const postTitle = post.title;
-      const postUrl = `https://www.reddit.com${post.permalink}`;
-      const postDate = new Date(post.created_utc * 1000)
-        .toISOString()
-        .split("T")[0];
-      const postScore = post.score;
-
-      console.log(
-        `📌 Fetching comments for: ${postTitle} (Score: ${postScore}, Date: ${postDate})`
-      );
+        console.log(
+          `📌 Fetching comments for: ${postTitle} (Score: ${postScore}, Date: ${postDate})`
+        );
 
-      const fetchOptions: any = {
-        amount: 50,
-        sort: "top",
-        skipReplies: false,
-      };
-      const rawComments = await post.comments.fetchMore(fetchOptions);
+        const fetchOptions: any = {
+          amount: sampling.commentLimit,
+          sort: sampling.commentSort,
+          skipReplies: false,
+        };
+        const rawComments = await post.comments.fetchMore(fetchOptions);
 
-      console.log(`📝 Processing ${rawComments.length} comments`);
+        console.log(`📝 Processing ${rawComments.length} comments`);
 
-      const allComments = rawComments.map((comment) => {
-        // Convert snoowrap replies to array - snoowrap replies might be a Listing object
-        let repliesArray: any[] = [];
-        if (comment.replies && comment.replies.length > 0) {
-          try {
-            repliesArray = Array.from(comment.replies);
-          } catch (error) {
-            repliesArray = [];
-          }
+        const stubs: any[] = rawComments.isFinished ? [] : [rawComments];
+        const flatComments = flattenComments(
+          Array.from(rawComments),
+          [],
+          stubs
+        );
+        if (stubs.length > 0) {
+          this.pending.set(post.id, { comments: flatComments, stubs });
         }
 
-        const commentData: RedditComment = {
-          id: comment.id,
-          text: comment.body,
-          body: comment.body,
-          processed: "",
-          normalizedTokens: [],
-          score: comment.score,
-          author: comment.author ? comment.author.name : "[deleted]",
-          timestamp: new Date(comment.created_utc * 1000).toISOString(),
-          parentId: comment.parent_id,
-          replies: repliesArray.map((reply) => ({
-            id: reply.id,
-            text: reply.body,
-            body: reply.body,
-            processed: "",
-            normalizedTokens: [],
-            score: reply.score,
-            author: reply.author ? reply.author.name : "[deleted]",
-            timestamp: new Date(reply.created_utc * 1000).toISOString(),
-            parentId: reply.parent_id,
-            replies: [],
-          })),
+        const { roots: rootComments, stats } = buildCommentTree(
+          flatComments,
+          this.treeOptions
+        );
+
+        console.log(
+          `🌳 Built comment tree: ${rootComments.length} root comments, ${stats.kept}/${stats.total} comments kept (${stats.droppedByDepth} over depth ${this.treeOptions.maxDepth}, ${stats.droppedByBudget} over budget ${this.treeOptions.maxNodes})`
+        );
+
+        return {
+          id: post.id,
+          title: postTitle,
+          url: postUrl,
+          content: post.selftext || undefined,
+          timestamp: new Date(post.created_utc * 1000).toISOString(),
+          score: postScore,
+          numComments: post.num_comments,
+          comments: rootComments,
+          ...readPostMetadata(post),
         };
-        return commentData;
-      });
+      }
+    );
+
+    return buildRedditData(request, discussions);
+  }
 
-      const commentMap = new Map<string, RedditComment>();
-      const rootComments: RedditComment[] = [];
+  /**
+   * Load collapsed comments, highest-scoring posts first, until the
+   * analysis-wide budget runs out
+   */
+  async expand(data: RedditData[], budget: RequestBudget): Promise<void> {
+    const discussions = data
+      .flatMap((subredditData) => subredditData.discussions)
+      .filter((discussion) => this.pending.has(discussion.id))
+      .sort((a, b) => b.score - a.score);
 
-      // Build comment tree - only add top-level comments (direct replies to post)
-      allComments.forEach((comment) => {
-        if (comment.id) {
-          commentMap.set(comment.id, comment);
+    try {
+      for (const discussion of discussions) {
+        const thread = this.pending.get(discussion.id)!;
+        let expanded = false;
+
+        while (thread.stubs.length > 0 && budget.tryConsume()) {
+          const listing = thread.stubs.shift();
+          try {
+            const extended = await listing.fetchMore({
+              amount: MORE_COMMENTS_BATCH,
+              skipReplies: false,
+            });
+            flattenComments(
+              Array.from(extended).slice(listing.length),
+              thread.comments,
+              thread.stubs
+            );
+            if (!extended.isFinished) {
+              thread.stubs.unshift(extended);
+            }
+            expanded = true;
+          } catch (error) {
+            console.error(
+              `❌ Failed to load more comments for ${discussion.id}:`,
+              error
+            );
+          }
         }
 
-        if (!comment.parentId || comment.parentId.startsWith("t3_")) {
-          rootComments.push(comment);
+        if (expanded) {
+          discussion.comments = buildCommentTree(
+            thread.comments,
+            this.treeOptions
+          ).roots;
         }
-      });
 
-      console.log(
-        `🌳 Built comment tree: ${rootComments.length} root comments`
+        if (budget.remaining === 0) break;
+      }
+    } finally {
+      // Threads left when the budget ran out are not expanded later either
+      for (const discussion of discussions) {
+        this.pending.delete(discussion.id);
+      }
+    }
+  }
+}
+
+/**
+ * Create the data source selected by the configuration
+ */
+export function createDataSource(
+  config: DataSourceConfig = getDataSourceConfig()
+): DataSource {
+  switch (config.type) {
+    case "fixture":
+      return new FixtureDataSource(config.fixtureDir || "./fixtures");
+    case "memory":
+      return new MemoryDataSource(config.seed);
+    case "reddit":
+    default:
+      return new RedditDataSource(
+        config.commentTree,
+        config.concurrency?.comments
       );
+  }
+}
 
-      postData.discussions.push({
-        id: post.id,
-        title: postTitle,
-        url: postUrl,
-        timestamp: new Date(post.created_utc * 1000).toISOString(),
-        score: postScore,
-        comments: rootComments,
-      });
-    }
+/**
+ * Fetch raw discussions for one subreddit, or null when nothing matched.
+ * Request failures are thrown so callers can report them.
+ */
+async function fetchRawComments(
+  source: DataSource,
+  request: DataSourceRequest
+): Promise<RedditData | null> {
+  const { subreddit, query, timeframe, minPostScore } = request;
+  console.log(
+    `🔍 Fetching posts from r/${subreddit} for query: "${query}" (last ${timeframe}, min post score: ${minPostScore}, ${request.sampling.postLimit} ${request.sampling.searchSort} posts, source: ${source.name})`
+  );
+  const postData = await source.fetch(request);
 
-    const totalComments = postData.discussions.reduce(
-      (sum, discussion) => sum + discussion.comments.length,
-      0
+  if (!postData || !postData.discussions.length) {
+    console.log(
+      `⚠ No posts found for "${query}" in r/${subreddit} with minimum score ${minPostScore} in the last ${timeframe}`
     );
-    postData.metadata.totalComments = totalComments;
-    postData.metadata.totalDiscussions = postData.discussions.length;
+    return null;
+  }
+
+  console.log(
+    `📊 Collected ${postData.discussions.length} discussions with ${postData.metadata.totalComments} total comments`
+  );
+  return postData;
+}
 
+/**
+ * Load collapsed comments within the budget, if the source supports it
+ */
+async function expandComments(
+  source: DataSource,
+  data: RedditData[],
+  budget: RequestBudget
+): Promise<void> {
+  if (!source.expand || data.length === 0) return;
+
+  try {
     console.log(
-      `📊 Collected ${postData.discussions.length} discussions with ${totalComments} total comments`
+      `➕ Loading collapsed comments (budget: ${budget.limit} requests)...`
     );
-    console.log(`🔄 Preprocessing data from r/${subredditName}...`);
-    const processedData = preprocessRedditData(postData);
+    await source.expand(data, budget);
+    console.log(`➕ Used ${budget.used}/${budget.limit} "load more" requests`);
+  } catch (error) {
+    console.error("❌ Error loading collapsed comments:", error);
+  }
+}
 
-    console.log(`📊 Analyzing sentiment for r/${subredditName}...`);
-    const dataWithSentiment = analyzeRedditData(processedData);
+function logUnscoredLanguages(data: RedditData): void {
+  const languages = data.metadata.languages;
+  if (!languages || languages.unscored === 0) return;
+
+  const total = languages.breakdown.reduce(
+    (sum, language) => sum + language.comments,
+    0
+  );
+  console.log(
+    `🌐 ${languages.unscored}/${total} comments and posts in r/${
+      data.subreddit
+    } were left out of sentiment (${languages.breakdown
+      .filter((language) => !language.scored)
+      .map((language) => `${language.code}: ${language.comments}`)
+      .join(", ")})`
+  );
+}
 
-    return dataWithSentiment;
+/**
+ * Record coverage, filter bot, removed and other-language content, check
+ * posts and comments against the query, then run preprocessing and
+ * sentiment analysis
+ */
+function analyzeFetchedData(
+  data: RedditData,
+  budget: RequestBudget
+): RedditData {
+  const coverage = summarizeCoverage(data, budget);
+  console.log(
+    `📈 Coverage for r/${data.subreddit}: ${coverage.fetchedComments}/${
+      coverage.reportedComments
+    } comments (${Math.round(coverage.ratio * 100)}%)`
+  );
+
+  filterRedditData(data);
+  flagQueryMatches(data);
+
+  console.log(`🔄 Preprocessing data from r/${data.subreddit}...`);
+  const processedData = preprocessRedditData(data);
+
+  console.log(`📊 Analyzing sentiment for r/${data.subreddit}...`);
+  const analyzedData = analyzeRedditData(processedData);
+  logUnscoredLanguages(analyzedData);
+  return analyzedData;
+}
+
+/**
+ * Fetch, expand and analyse one subreddit, or null when nothing matched or
+ * the request failed
+ */
+async function fetchComments(
+  source: DataSource,
+  request: DataSourceRequest,
+  budget: RequestBudget = new RequestBudget(DEFAULT_EXPANSION_BUDGET)
+): Promise<RedditData | null> {
+  let postData: RedditData | null;
+  try {
+    postData = await fetchRawComments(source, request);
   } catch (error) {
-    console.error(`❌ Error fetching from r/${subredditName}:`, error);
+    console.error(`❌ Error fetching from r/${request.subreddit}:`, error);
     return null;
   }
+  if (!postData) return null;
+
+  await expandComments(source, [postData], budget);
+  return analyzeFetchedData(postData, budget);
+}
+
+/**
+ * Fetch several subreddits, a few at a time, then spend the shared "load more" budget on
+ * the highest-scoring posts across all of them before analysing
+ */
+async function fetchSubreddits(
+  source: DataSource,
+  request: SubredditsRequest,
+  budget: RequestBudget = new RequestBudget(DEFAULT_EXPANSION_BUDGET),
+  concurrency: number = DEFAULT_SUBREDDIT_CONCURRENCY
+): Promise<{ data: RedditData[]; failed: SubredditFailure[] }> {
+  const { subreddits, ...search } = request;
+  // Results come back in the order of `subreddits`, whichever finishes first
+  const results = await mapWithConcurrency(
+    subreddits,
+    concurrency,
+    async (subreddit) => {
+      console.log(`📱 Processing r/${subreddit}...`);
+      try {
+        const data = await fetchRawComments(source, { ...search, subreddit });
+        return { subreddit, data };
+      } catch (error: any) {
+        console.error(`❌ Error fetching from r/${subreddit}:`, error);
+        return { subreddit, error: error?.message || String(error) };
+      }
+    }
+  );
+
+  const fetched: RedditData[] = [];
+  const failed: SubredditFailure[] = [];
+  for (const result of results) {
+    if (result.data) {
+      fetched.push(result.data);
+    } else if (result.error !== undefined) {
+      failed.push({ subreddit: result.subreddit, error: result.error });
+    }
+  }
+
+  if (failed.length > 0) {
+    console.warn(
+      `⚠️ ${failed.length} subreddit(s) failed: ${failed
+        .map((failure) => failure.subreddit)
+        .join(", ")}`
+    );
+  }
+
+  await expandComments(source, fetched, budget);
+  return {
+    data: fetched.map((data) => analyzeFetchedData(data, budget)),
+    failed,
+  };
 }
 
 async function saveToFile(data: RedditData) {
@@ -228,4 +456,4 @@ async function saveToFile(data: RedditData) {
   }
 }
 
-export { fetchComments, saveToFile };
+export { fetchComments, fetchSubreddits, saveToFile };
@@ -0,0 +1,125 @@
+/**
+ * Refresh Merge Tests
+ *
+ * Merges the same fetched discussions into stored ones twice: the second
+ * merge must change nothing, and posts and comments older than the last
+ * fetch are never added.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { mockStorage } from "./mock-storage";
+import type { Discussion, RedditComment } from "./types/reddit";
+import type { RefreshStats } from "./refresh";
+
+mockStorage();
+
+const { mergeDiscussions } = await import("./refresh");
+
+const SINCE = new Date("2025-10-10T00:00:00Z");
+const BEFORE = "2025-10-09T12:00:00.000Z";
+const AFTER = "2025-10-10T12:00:00.000Z";
+
+// Depth as the data sources' comment trees set it
+const comment = (
+  id: string,
+  parentId: string,
+  score: number,
+  timestamp: string
+): RedditComment => ({
+  id,
+  depth: parentId.startsWith("t1_") ? 1 : 0,
+  body: `Comment ${id}`,
+  text: `Comment ${id}`,
+  processed: "",
+  normalizedTokens: [],
+  score,
+  author: "redacted",
+  timestamp,
+  parentId,
+  replies: [],
+});
+
+const discussion = (
+  id: string,
+  score: number,
+  timestamp: string,
+  comments: RedditComment[]
+): Discussion => ({
+  id,
+  title: `Post ${id}`,
+  url: `https://www.reddit.com/r/rust/comments/${id}/`,
+  timestamp,
+  score,
+  comments,
+});
+
+const emptyStats = (): RefreshStats => ({
+  fetchedSubreddits: 0,
+  newDiscussions: 0,
+  updatedDiscussions: 0,
+  newComments: 0,
+  updatedComments: 0,
+});
+
+const stored = (): Discussion[] => [
+  discussion("p1", 100, BEFORE, [
+    {
+      ...comment("c1", "t3_p1", 10, BEFORE),
+      replies: [comment("c2", "t1_c1", 5, BEFORE)],
+    },
+  ]),
+];
+
+// What Reddit returns now: new scores, a new reply, a comment and a post
+// from before the last fetch that were not stored, and a new post
+const fetched = (): Discussion[] => [
+  discussion("p1", 120, BEFORE, [
+    {
+      ...comment("c1", "t3_p1", 15, BEFORE),
+      replies: [
+        comment("c2", "t1_c1", 5, BEFORE),
+        comment("c3", "t1_c1", 2, AFTER),
+      ],
+    },
+    comment("c4", "t3_p1", 1, BEFORE),
+  ]),
+  discussion("p2", 30, AFTER, [comment("c5", "t3_p2", 3, AFTER)]),
+  discussion("p3", 40, BEFORE, [comment("c6", "t3_p3", 4, BEFORE)]),
+];
+
+const commentIds = (comments: RedditComment[]): string[] =>
+  comments.flatMap((item) => [item.id, ...commentIds(item.replies)]);
+
+describe("mergeDiscussions", () => {
+  test("adds new posts and comments and takes over scores", () => {
+    const stats = emptyStats();
+    const merged = mergeDiscussions(stored(), fetched(), SINCE, stats);
+
+    expect(merged.map((item) => item.id)).toEqual(["p1", "p2"]);
+    expect(merged[0].score).toBe(120);
+    expect(commentIds(merged[0].comments)).toEqual(["c1", "c2", "c3"]);
+    expect(merged[0].comments[0].score).toBe(15);
+    expect(stats).toEqual({
+      fetchedSubreddits: 0,
+      newDiscussions: 1,
+      updatedDiscussions: 1,
+      newComments: 2,
+      updatedComments: 1,
+    });
+  });
+
+  test("changes nothing when the same data is merged again", () => {
+    const first = mergeDiscussions(stored(), fetched(), SINCE, emptyStats());
+
+    const stats = emptyStats();
+    const second = mergeDiscussions(
+      structuredClone(first),
+      fetched(),
+      SINCE,
+      stats
+    );
+
+    expect(second).toEqual(first);
+    expect(stats).toEqual(emptyStats());
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Incremental Refresh
+ *
+ * This module handles:
+ * - Re-fetching the subreddits of a stored analysis
+ * - Merging new posts and comments into the stored discussions, keyed on
+ *   post and comment id, and taking over changed scores
+ * - Recomputing sentiment and entity aggregates on the merged discussions
+ *
+ * Merging is idempotent: refreshing twice against the same Reddit state
+ * leaves the discussions unchanged the second time.
+ */
+
+import type { Discussion, RedditComment, RedditData } from "./types/reddit";
+import type { DataSource, TimeFilter } from "./types/datasource";
+import type { SubredditEntityAnalysis } from "./types/entities";
+import type { CachedAnalysis } from "./storage";
+import type { NERService } from "./ner";
+import { fetchSubreddits } from "./reddit";
+import {
+  buildRedditData,
+  mergeCoverage,
+  summarizeCoverage,
+  RequestBudget,
+} from "./datasource";
+import { buildCommentTree, countComments, flattenCommentTree } from "./threads";
+import { preprocessRedditData } from "./preprocessing";
+import {
+  addFilterStats,
+  filterRedditData,
+  mergeFilterStats,
+} from "./filters";
+import { addDeduplicationStats, deduplicateRedditData } from "./dedup";
+import { flagQueryMatches, parseQuery } from "./query";
+import { mergeLanguageStats } from "./language";
+import { mergeEmojiStats } from "./emoji";
+import { getSlangDictionary } from "./slang";
+import { analyzeRedditData, getSentimentPolicy } from "./sentiment";
+import { DEFAULT_SAMPLING } from "./sampling";
+
+export interface RefreshStats {
+  fetchedSubreddits: number; // Subreddits that returned posts
+  newDiscussions: number; // Posts created since the last fetch
+  updatedDiscussions: number; // Stored posts whose score changed
+  newComments: number; // Comments created since the last fetch
+  updatedComments: number; // Stored comments whose score changed
+}
+
+export interface RefreshResult {
+  data: RedditData; // All discussions, merged and re-analysed
+  entityAnalyses: SubredditEntityAnalysis[];
+  stats: RefreshStats;
+}
+
+const isNewerThan = (timestamp: string, since: Date) =>
+  new Date(timestamp).getTime() > since.getTime();
+
+/**
+ * Merge fetched comments into stored comment trees. Stored comments take
+ * the fetched fields (score, edits, ...), fetched comments that are not
+ * stored yet are added when they were written after `since`.
+ */
+function mergeComments(
+  stored: RedditComment[],
+  fetched: RedditComment[],
+  since: Date,
+  stats: RefreshStats
+): RedditComment[] {
+  const fetchedById = new Map(
+    flattenCommentTree(fetched).map((comment) => [comment.id, comment])
+  );
+
+  const merged = flattenCommentTree(stored).map((comment) => {
+    const update = fetchedById.get(comment.id);
+    if (!update) return comment;
+
+    fetchedById.delete(comment.id);
+    if (update.score !== comment.score) stats.updatedComments++;
+    return { ...comment, ...update };
+  });
+
+  for (const comment of fetchedById.values()) {
+    if (isNewerThan(comment.timestamp, since)) {
+      merged.push(comment);
+      stats.newComments++;
+    }
+  }
+
+  // Stored trees were already limited when first fetched, keep all of them
+  return buildCommentTree(merged, {
+    maxDepth: Infinity,
+    maxNodes: Infinity,
+  }).roots;
+}
+
+/**
+ * Merge fetched discussions into stored ones, keyed on post id. Posts that
+ * are not stored yet are added when they were created after `since`.
+ */
+export function mergeDiscussions(
+  stored: Discussion[],
+  fetched: Discussion[],
+  since: Date,
+  stats: RefreshStats
+): Discussion[] {
+  const fetchedById = new Map(
+    fetched.map((discussion) => [discussion.id, discussion])
+  );
+
+  const merged = stored.map((discussion) => {
+    const update = fetchedById.get(discussion.id);
+    if (!update) return discussion;
+
+    fetchedById.delete(discussion.id);
+    if (update.score !== discussion.score) stats.updatedDiscussions++;
+    return {
+      ...discussion,
+      ...update,
+      comments: mergeComments(
+        discussion.comments,
+        update.comments,
+        since,
+        stats
+      ),
+    };
+  });
+
+  for (const discussion of fetchedById.values()) {
+    if (isNewerThan(discussion.timestamp, since)) {
+      merged.push(discussion);
+      stats.newDiscussions++;
+      stats.newComments += countComments(discussion.comments);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Re-fetch a stored analysis with its original settings, merge what is new
+ * and recompute sentiment. Entities are recomputed when a NER service is
+ * given.
+ */
+export async function refreshAnalysis(
+  analysis: CachedAnalysis,
+  source: DataSource,
+  budget: RequestBudget,
+  concurrency: number,
+  nerService: NERService | null = null
+): Promise<RefreshResult> {
+  const since = analysis.scrapedAt;
+  const sampling = analysis.sampling || DEFAULT_SAMPLING;
+  const sentimentPolicy = analysis.sentimentPolicy || getSentimentPolicy();
+  const query = analysis.parsedQuery || parseQuery(analysis.query);
+  const stats: RefreshStats = {
+    fetchedSubreddits: 0,
+    newDiscussions: 0,
+    updatedDiscussions: 0,
+    newComments: 0,
+    updatedComments: 0,
+  };
+
+  // Analyses saved per subreddit by the CLI do not tag their discussions
+  const storedDiscussions: Array<Discussion & { subreddit?: string }> =
+    analysis.discussions || [];
+  const subredditOf = (discussion: { subreddit?: string }) =>
+    discussion.subreddit || analysis.subreddit;
+  const storedComments = storedDiscussions.reduce(
+    (sum, discussion) => sum + countComments(discussion.comments),
+    0
+  );
+
+  // Stored names keep their case, the subreddit key is lowercased
+  const names = new Map<string, string>();
+  for (const name of [
+    ...storedDiscussions.map(subredditOf),
+    ...analysis.subreddits,
+  ]) {
+    if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  }
+
+  console.log(
+    `🔄 Refreshing "${analysis.query}" in ${names.size} subreddits since ${since.toISOString()}`
+  );
+
+  const { data: fetched, failed } = await fetchSubreddits(
+    source,
+    {
+      subreddits: [...names.values()],
+      query: query.text,
+      parsedQuery: query,
+      category: analysis.category,
+      timeframe: analysis.timeframe as TimeFilter,
+      minPostScore: analysis.minScore,
+      sampling,
+      languageFilter: analysis.languageFilter,
+      preprocessing: analysis.preprocessing,
+      customSlang: analysis.customSlang,
+      sentimentPolicy,
+    },
+    budget,
+    concurrency
+  );
+  stats.fetchedSubreddits = fetched.length;
+
+  const refreshed: RedditData[] = [];
+  const entityAnalyses: SubredditEntityAnalysis[] = [];
+  for (const [key, name] of names) {
+    const discussions = mergeDiscussions(
+      storedDiscussions.filter(
+        (discussion) => subredditOf(discussion).toLowerCase() === key
+      ),
+      fetched.find((data) => data.subreddit.toLowerCase() === key)
+        ?.discussions || [],
+      since,
+      stats
+    );
+    if (discussions.length === 0) continue;
+
+    const data = buildRedditData(
+      {
+        subreddit: name,
+        query: analysis.query,
+        parsedQuery: query,
+        category: analysis.category,
+        timeframe: analysis.timeframe as TimeFilter,
+        minPostScore: analysis.minScore,
+        sampling,
+        languageFilter: analysis.languageFilter,
+        preprocessing: analysis.preprocessing,
+        customSlang: analysis.customSlang,
+        sentimentPolicy,
+      },
+      discussions
+    );
+    summarizeCoverage(data, budget);
+    filterRedditData(data);
+    flagQueryMatches(data, query);
+    refreshed.push(analyzeRedditData(preprocessRedditData(data)));
+  }
+
+  // Stored discussions are already unique, this catches new duplicates
+  const deduplicated = deduplicateRedditData(refreshed);
+
+  if (nerService) {
+    for (const data of refreshed) {
+      try {
+        entityAnalyses.push(await nerService.analyzeEntities(data));
+      } catch (entityError) {
+        console.error(
+          `❌ Error during entity analysis for r/${data.subreddit}:`,
+          entityError
+        );
+      }
+    }
+  }
+
+  console.log(
+    `✅ Refresh merged ${stats.newDiscussions} new posts and ${stats.newComments} new comments, ${stats.updatedDiscussions} post and ${stats.updatedComments} comment scores changed`
+  );
+
+  return {
+    data: {
+      subreddit: refreshed.map((data) => data.subreddit).join(", "),
+      query: analysis.query,
+      category: analysis.category,
+      metadata: {
+        query: analysis.query,
+        parsedQuery: query,
+        timeframe: analysis.timeframe,
+        minScore: analysis.minScore,
+        subreddits: analysis.subreddits,
+        sampling: analysis.sampling,
+        totalComments: refreshed.reduce(
+          (sum, data) => sum + data.metadata.totalComments,
+          0
+        ),
+        totalDiscussions: refreshed.reduce(
+          (sum, data) => sum + data.metadata.totalDiscussions,
+          0
+        ),
+        scrapedAt: new Date().toISOString(),
+        coverage: mergeCoverage(refreshed),
+        // Comments excluded before are not stored, so they are not counted
+        // again: add what the new comments lost to the stored counts
+        filtered: addFilterStats(
+          analysis.filtered,
+          mergeFilterStats(refreshed),
+          storedComments
+        ),
+        deduplicated: addDeduplicationStats(
+          analysis.deduplicated,
+          deduplicated
+        ),
+        languageFilter: analysis.languageFilter,
+        preprocessing: analysis.preprocessing,
+        customSlang: analysis.customSlang,
+        // Stored comments are preprocessed again with the current lexicons
+        slangVersion: getSlangDictionary(
+          analysis.category,
+          analysis.customSlang
+        ).version,
+        sentimentPolicy,
+        languages: mergeLanguageStats(refreshed),
+        emoji: mergeEmojiStats(refreshed),
+        failedSubreddits: failed,
+      },
+      discussions: refreshed.flatMap((data) =>
+        data.discussions.map((discussion) => ({
+          ...discussion,
+          subreddit: data.subreddit,
+        }))
+      ),
+    },
+    entityAnalyses,
+    stats,
+  };
+}
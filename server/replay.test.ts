@@ -0,0 +1,148 @@
+/**
+ * Cassette Replay Tests
+ *
+ * Replays cassettes/rust-async.jsonl, a search of r/rust for "async" with
+ * one discussion and three comments, through fetchComments and
+ * POST /api/analyze. No network, Reddit credentials or database needed.
+ */
+
+import { beforeAll, describe, expect, test } from "bun:test";
+import { mockStorage } from "./mock-storage";
+
+mockStorage();
+
+const { useCassette } = await import("./cassette");
+const { createDataSource, fetchComments } = await import("./reddit");
+const { resolveQuery } = await import("./query");
+const { DEFAULT_SAMPLING } = await import("./sampling");
+const { app } = await import("./server");
+
+const CASSETTE = "./cassettes/rust-async.jsonl";
+
+beforeAll(() => {
+  useCassette("replay", CASSETTE);
+});
+
+describe("fetchComments", () => {
+  test("replays search and comments from the cassette", async () => {
+    const data = await fetchComments(createDataSource({ type: "reddit" }), {
+      subreddit: "rust",
+      query: "async",
+      parsedQuery: resolveQuery("async"),
+      category: "technology",
+      timeframe: "week",
+      minPostScore: 10,
+      sampling: DEFAULT_SAMPLING,
+    });
+
+    expect(data).not.toBeNull();
+    // The second search result is under the minimum score
+    expect(data!.discussions.map((discussion) => discussion.id)).toEqual([
+      "abc123",
+    ]);
+
+    const [discussion] = data!.discussions;
+    expect(discussion.title).toBe("Async closures are finally stable");
+    expect(discussion.comments.map((comment) => comment.id)).toEqual([
+      "c1",
+      "c3",
+    ]);
+    expect(discussion.comments[0].replies.map((reply) => reply.id)).toEqual([
+      "c2",
+    ]);
+    expect(discussion.comments[0].sentiment!.overall.compound).toBeGreaterThan(
+      0
+    );
+    expect(discussion.comments[1].sentiment!.overall.compound).toBeLessThan(0);
+
+    expect(data!.metadata.totalComments).toBe(3);
+    expect(data!.metadata.coverage).toMatchObject({
+      fetchedComments: 3,
+      reportedComments: 3,
+      expansionRequests: 0,
+    });
+  });
+});
+
+describe("POST /api/analyze", () => {
+  test("analyzes a subreddit from the cassette", async () => {
+    const response = await app.request("/api/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: "async",
+        category: "technology",
+        subreddits: ["rust"],
+        timeframe: "week",
+        minPostScore: 10,
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    const { success, cached, data } = await response.json();
+    expect(success).toBe(true);
+    expect(cached).toBe(false);
+    expect(data.category).toBe("technology");
+    expect(data.subreddits).toEqual(["rust"]);
+    expect(data.totalDiscussions).toBe(1);
+    expect(data.totalComments).toBe(3);
+    expect(data.failedSubreddits).toEqual([]);
+    expect(data.discussions[0]).toMatchObject({
+      id: "abc123",
+      subreddit: "rust",
+      commentCount: 3,
+    });
+  });
+
+  test("reports a subreddit missing from the cassette as failed", async () => {
+    const response = await app.request("/api/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: "async",
+        category: "technology",
+        subreddits: ["golang"],
+        timeframe: "week",
+        minPostScore: 10,
+      }),
+    });
+
+    expect(response.status).toBe(502);
+    const { success, error } = await response.json();
+    expect(success).toBe(false);
+    expect(error).toContain("r/golang");
+  });
+
+  test("rejects an unknown timeframe", async () => {
+    const response = await app.request("/api/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: "async",
+        category: "technology",
+        subreddits: ["rust"],
+        timeframe: "fortnight",
+      }),
+    });
+
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error).toContain("Invalid timeframe");
+  });
+
+  test("rejects an unknown category with a subreddit list", async () => {
+    const response = await app.request("/api/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: "async",
+        category: "made-up",
+        subreddits: ["rust"],
+      }),
+    });
+
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error).toContain("Invalid category");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Sampling Options
+ *
+ * This module handles:
+ * - The search sort, post limit and comment sort/amount of an analysis
+ * - Validating sampling options from requests and CLI arguments
+ * - Ordering discussions the way a search sort would for offline sources
+ */
+
+import type { Discussion } from "./types/reddit";
+import type {
+  CommentSort,
+  SamplingOptions,
+  SearchSort,
+} from "./types/datasource";
+
+export const SEARCH_SORTS: SearchSort[] = [
+  "relevance",
+  "hot",
+  "top",
+  "new",
+  "comments",
+];
+
+export const COMMENT_SORTS: CommentSort[] = [
+  "confidence",
+  "top",
+  "new",
+  "controversial",
+  "old",
+  "qa",
+];
+
+// Search requests fetch twice the post limit to leave room for the score
+// threshold, and /search returns at most 100 posts
+export const MAX_POST_LIMIT = 50;
+export const MAX_COMMENT_LIMIT = 500;
+
+export const DEFAULT_SAMPLING: SamplingOptions = {
+  searchSort: "relevance",
+  postLimit: 5,
+  commentSort: "top",
+  commentLimit: 50,
+};
+
+function toLimit(value: unknown, field: string, max: number): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > max) {
+    throw new Error(`"${field}" must be a whole number between 1 and ${max}`);
+  }
+  return limit;
+}
+
+/**
+ * Validate sampling options from a request, filling in the defaults for
+ * missing ones. Throws with a user-facing message when an option is invalid.
+ */
+export function resolveSampling(
+  input: Partial<Record<keyof SamplingOptions, unknown>> = {},
+  defaults: SamplingOptions = DEFAULT_SAMPLING
+): SamplingOptions {
+  const searchSort = input.searchSort ?? defaults.searchSort;
+  if (!SEARCH_SORTS.includes(searchSort as SearchSort)) {
+    throw new Error(
+      `Invalid search sort "${searchSort}". Choose from: ${SEARCH_SORTS.join(", ")}`
+    );
+  }
+
+  const commentSort = input.commentSort ?? defaults.commentSort;
+  if (!COMMENT_SORTS.includes(commentSort as CommentSort)) {
+    throw new Error(
+      `Invalid comment sort "${commentSort}". Choose from: ${COMMENT_SORTS.join(", ")}`
+    );
+  }
+
+  return {
+    searchSort: searchSort as SearchSort,
+    postLimit: toLimit(
+      input.postLimit ?? defaults.postLimit,
+      "postLimit",
+      MAX_POST_LIMIT
+    ),
+    commentSort: commentSort as CommentSort,
+    commentLimit: toLimit(
+      input.commentLimit ?? defaults.commentLimit,
+      "commentLimit",
+      MAX_COMMENT_LIMIT
+    ),
+  };
+}
+
+const newestFirst = (a: Discussion, b: Discussion) =>
+  new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+/**
+ * Compare discussions in the order a search sort would return them. Sources
+ * without a relevance ranking fall back to newest first for "relevance" and
+ * "hot".
+ */
+export function compareDiscussions(
+  sort: SearchSort
+): (a: Discussion, b: Discussion) => number {
+  switch (sort) {
+    case "top":
+      return (a, b) => b.score - a.score || newestFirst(a, b);
+    case "comments":
+      return (a, b) =>
+        (b.numComments ?? 0) - (a.numComments ?? 0) || newestFirst(a, b);
+    default:
+      return newestFirst;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Sarcasm Detection
+ *
+ * This module handles:
+ * - Measuring explicit sarcasm features in a text: "/s" markers, stock
+ *   phrases, punctuation, praise contrasted with something going wrong,
+ *   emoji, capitalization and scare quotes
+ * - Combining them with weights into a confidence (a logistic model, so
+ *   one strong cue or several weak ones are needed)
+ *
+ * The weights are a logistic regression fitted on the labelled examples in
+ * datasets/sarcasm.json (`bun run evaluate.ts --fit`); `bun run
+ * evaluate.ts` reports cross-validated precision and recall, measured on
+ * examples left out of the fit. None of the patterns keep state between
+ * calls, so the same text always scores the same.
+ */
+
+import VADER from "vader-sentiment";
+import type { EmojiCounts } from "./types/emoji";
+import type {
+  SarcasmDetection,
+  SarcasmFeature,
+  SarcasmFeatures,
+  SarcasmWeights,
+} from "./types/sarcasm";
+import { countEmoji } from "./emoji";
+
+export const SARCASM_WEIGHTS: SarcasmWeights = {
+  bias: -1.1,
+  features: {
+    marker: 1.3,
+    phrase: 2.8,
+    punctuation: 0,
+    contrast: 2,
+    emoji: 1.5,
+    capitalization: 1,
+    quotes: 1,
+  },
+};
+
+// "/s" or "/sarcasm" as a word of its own, usually at the end
+const MARKER = /(?:^|\s)\/(?:s|sarcasm)(?=$|[\s.!?,)])/i;
+
+const PHRASES = new RegExp(
+  "\\b(?:" +
+    [
+      "yeah,? right",
+      "yeah,? sure",
+      "sure,? jan",
+      "sure thing",
+      "oh,? (?:great|joy|wonderful|fantastic|perfect|goody|how nice)",
+      "what a (?:surprise|shock|shocker|time to be alive)",
+      "(?:big|huge) surprise",
+      "colou?r me (?:surprised|shocked)",
+      "who (?:could have|would have|could've|would've) (?:guessed|thought|seen|predicted)",
+      "never would have guessed",
+      "said no one ever",
+      "thanks a lot",
+      "thanks for nothing",
+      "just what (?:i|we) (?:needed|wanted)",
+      "because that (?:always works|worked so well|went so well)",
+      "(?:what|such) a (?:genius|brilliant) (?:idea|move|plan)",
+      "(?:truly|real) (?:a )?(?:genius|visionary)",
+      "10/10 would",
+      "i'?m shocked,? shocked",
+      "totally not",
+      "definitely not suspicious",
+      "nothing could possibly go wrong",
+      "living the dream",
+      "how (?:generous|kind|thoughtful|considerate) of (?:them|him|her|you)",
+      "(?:really )?outdid (?:themselves|himself|herself)",
+      "my favou?rite (?:part|thing) is when",
+    ].join("|") +
+    ")\\b",
+  "i"
+);
+
+const PUNCTUATION = /!{2,}|\?!|!\?|\.{3,}\s*$/g;
+
+// Things going wrong, often praised sarcastically ("love waiting 3 hours")
+const MISHAPS = new RegExp(
+  "\\b(?:" +
+    [
+      "crash(?:es|ed|ing)?",
+      "delet(?:es|ed|ing)",
+      "hung up",
+      "broke(?:n)?",
+      "breaks",
+      "bug(?:s|gy)?",
+      "lag(?:s|gy|ging)?",
+      "delay(?:s|ed)?",
+      "cancell?ed",
+      "waiting",
+      "wait(?:ed)? (?:for )?\\d+",
+      "stuck",
+      "traffic",
+      "mondays?",
+      "downtime",
+      "outages?",
+      "errors?",
+      "paywall(?:ed)?",
+      "microtransactions?",
+      "ads",
+      "layoffs?",
+      "fired",
+      "taxes",
+      "recession",
+      "nerf(?:s|ed)?",
+      "rain(?:ing)?",
+      "again",
+      "another",
+    ].join("|") +
+    ")\\b",
+  "i"
+);
+
+const CLAUSES = /[.!?;,\n]+|\s+\b(?:but|yet|though|although)\b/i;
+
+// VADER reads "no problem" or "not bad" as negative, they reassure instead
+const REASSURANCES =
+  /\b(?:no|not|without|zero|never had)\s+(?:a\s+|any\s+)?(?:problems?|issues?|complaints?|bad|regrets?|worries)\b/gi;
+
+// Conceding a downside is usually sincere: "great game, but the servers lag"
+const CONCESSION = /\b(?:but|yet|though|although|however)\b/i;
+
+// Eye rolls, smirks, upside-down faces, winks and clowns
+const SARCASM_EMOJI = new Set(["🙄", "🙃", "😏", "😒", "🤡", "😑", ";)", ";-)"]);
+
+// Words shouted for emphasis in otherwise lower-case text ("SO helpful")
+const EMPHASIS = new Set([
+  "so",
+  "such",
+  "totally",
+  "really",
+  "very",
+  "love",
+  "loved",
+  "great",
+  "best",
+  "amazing",
+  "genius",
+  "brilliant",
+  "perfect",
+  "clearly",
+  "definitely",
+  "sure",
+  "wow",
+  "thanks",
+  "helpful",
+  "surprised",
+  "shocked",
+]);
+
+// Words with the case flipping back and forth, "tHiS iS gReAt"
+const MOCKING = /^(?=.*[a-z][A-Z][a-z])(?=.*[A-Z][a-z][A-Z])[A-Za-z]{4,}$/;
+
+const SCARE_QUOTES = /["“]\s*[A-Za-z'-]+(?:\s+[A-Za-z'-]+)?\s*["”]/;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Praise next to something going wrong: a clearly positive clause and
+ * another clause that is negative or names a mishap. Praise alone, however
+ * glowing, is not contrast.
+ */
+function measureContrast(text: string): number {
+  const clauses = text
+    .replace(REASSURANCES, "fine")
+    .split(CLAUSES)
+    .map((clause) => clause?.trim())
+    .filter((clause): clause is string => !!clause);
+  if (clauses.length < 2) return 0;
+
+  const scores = clauses.map(
+    (clause) => VADER.SentimentIntensityAnalyzer.polarity_scores(clause).compound
+  );
+  const praised = scores.indexOf(Math.max(...scores));
+  const praise = scores[praised];
+  if (praise < 0.4) return 0;
+
+  const criticism = Math.max(
+    ...clauses.map((clause, index) =>
+      index === praised
+        ? 0
+        : Math.max(-scores[index], MISHAPS.test(clause) ? 0.5 : 0)
+    )
+  );
+  if (criticism < 0.3) return 0;
+
+  const contrast = Math.min(praise, criticism) * 1.5;
+  return clamp(CONCESSION.test(text) ? contrast / 2 : contrast);
+}
+
+function measureCapitalization(text: string): number {
+  const words = text.match(/[A-Za-z']+/g) || [];
+  if (words.some((word) => MOCKING.test(word))) return 1;
+
+  const letters = words.join("");
+  const upper = letters.replace(/[^A-Z]/g, "").length;
+  // Shouting the whole text is anger or excitement rather than sarcasm
+  if (letters.length === 0 || upper / letters.length > 0.5) return 0;
+
+  const shouted = words.filter(
+    (word) =>
+      word.length > 1 &&
+      word === word.toUpperCase() &&
+      EMPHASIS.has(word.toLowerCase())
+  );
+  return clamp(shouted.length * 0.6);
+}
+
+/**
+ * Measure each sarcasm feature in a text. `emoji` are the emoji counted
+ * before they were translated to words, when known.
+ */
+export function extractSarcasmFeatures(
+  text: string,
+  emoji: EmojiCounts = countEmoji(text)
+): SarcasmFeatures {
+  return {
+    marker: MARKER.test(text) ? 1 : 0,
+    phrase: PHRASES.test(text) ? 1 : 0,
+    punctuation: clamp((text.match(PUNCTUATION) || []).length / 2),
+    contrast: measureContrast(text),
+    emoji: Object.keys(emoji).some((symbol) => SARCASM_EMOJI.has(symbol))
+      ? 1
+      : 0,
+    capitalization: measureCapitalization(text),
+    quotes: SCARE_QUOTES.test(text) ? 1 : 0,
+  };
+}
+
+/**
+ * Confidence (0-100) that a text with these features is sarcastic
+ */
+export function scoreSarcasm(
+  features: SarcasmFeatures,
+  weights: SarcasmWeights = SARCASM_WEIGHTS
+): number {
+  const logit = (Object.keys(features) as SarcasmFeature[]).reduce(
+    (sum, feature) => sum + features[feature] * weights.features[feature],
+    weights.bias
+  );
+  return Math.round(1000 / (1 + Math.exp(-logit))) / 10;
+}
+
+export function detectSarcasm(
+  text: string,
+  emoji?: EmojiCounts,
+  weights: SarcasmWeights = SARCASM_WEIGHTS
+): SarcasmDetection {
+  const features = extractSarcasmFeatures(text, emoji);
+  const confidence = scoreSarcasm(features, weights);
+  const found = (Object.keys(features) as SarcasmFeature[]).filter(
+    (feature) => features[feature] > 0
+  );
+
+  return {
+    isSarcastic: confidence >= 50,
+    confidence,
+    ...(found.length > 0 ? { features: found } : {}),
+  };
+}
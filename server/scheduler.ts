@@ -0,0 +1,34 @@
+/**
+ * Bounded-Concurrency Scheduling
+ *
+ * Runs async work over a list with at most `limit` tasks in flight.
+ * Results keep the input order regardless of completion order, so the
+ * output of an analysis does not depend on network timing.
+ */
+
+export const DEFAULT_SUBREDDIT_CONCURRENCY = 3;
+export const DEFAULT_COMMENT_CONCURRENCY = 4;
+
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  // At least one worker, even when the limit is not a positive number
+  const workerCount = Math.max(
+    1,
+    Math.min(Math.floor(limit) || 1, items.length)
+  );
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -1,6 +1,19 @@
-import type { RedditData, RedditComment } from "./types/reddit";
-import type { SentimentScores, SentimentAnalysis } from "./types/sentiment";
-import VADER from "vader-sentiment";
+import type { RedditData, RedditComment, Discussion } from "./types/reddit";
+import type {
+  SarcasmPolicy,
+  SentimentAnalysis,
+  SentimentEngine,
+  SentimentPolicy,
+  SentimentScores,
+} from "./types/sentiment";
+import type { LanguageDetection } from "./types/language";
+import {
+  DEFAULT_SENTIMENT_ENGINE,
+  getSentimentEngine,
+  getSentimentEngines,
+} from "./engines";
+import { isScorable, summarizeLanguages } from "./language";
+import { summarizeEmoji } from "./emoji";
 
 function getSentimentLabel(
   compound: number
@@ -10,82 +23,267 @@ function getSentimentLabel(
   return "neutral";
 }
 
-function analyzeCommentSentiment(comment: RedditComment): SentimentAnalysis {
-  const sentiment = VADER.SentimentIntensityAnalyzer.polarity_scores(
-    comment.text
+export const SARCASM_POLICIES: readonly SarcasmPolicy[] = [
+  "none",
+  "dampen",
+  "invert",
+];
+
+export const DEFAULT_SENTIMENT_POLICY: SentimentPolicy = {
+  engine: DEFAULT_SENTIMENT_ENGINE,
+  sarcasm: "dampen",
+  threshold: 30,
+};
+
+/**
+ * Validate a sentiment policy from a request: a sarcasm policy name, or
+ * `{ engine, sarcasm, threshold }` with missing fields taken from the
+ * defaults.
+ * Throws with a user-facing message on invalid values.
+ */
+export function resolveSentimentPolicy(
+  value: unknown,
+  defaults: SentimentPolicy = DEFAULT_SENTIMENT_POLICY
+): SentimentPolicy {
+  if (value === undefined || value === null) return defaults;
+
+  const policy =
+    typeof value === "string"
+      ? { sarcasm: value }
+      : typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  if (!policy) {
+    throw new Error(
+      `"sentimentPolicy" must be a sarcasm policy or { engine, sarcasm, threshold }`
+    );
+  }
+
+  const engine = policy.engine ?? defaults.engine;
+  if (typeof engine !== "string" || !getSentimentEngine(engine)) {
+    throw new Error(
+      `Unknown sentiment engine "${engine}". Choose from: ${getSentimentEngines()
+        .map((item) => item.name)
+        .join(", ")}`
+    );
+  }
+
+  const sarcasm = policy.sarcasm ?? defaults.sarcasm;
+  if (!SARCASM_POLICIES.includes(sarcasm as SarcasmPolicy)) {
+    throw new Error(
+      `Unknown sarcasm policy "${sarcasm}". Choose from: ${SARCASM_POLICIES.join(
+        ", "
+      )}`
+    );
+  }
+  const threshold = policy.threshold ?? defaults.threshold;
+  if (
+    typeof threshold !== "number" ||
+    !Number.isFinite(threshold) ||
+    threshold < 0 ||
+    threshold > 100
+  ) {
+    throw new Error("Sarcasm threshold must be a number from 0 to 100");
+  }
+
+  return { engine, sarcasm: sarcasm as SarcasmPolicy, threshold };
+}
+
+/**
+ * Default sentiment policy, from SENTIMENT_ENGINE, SARCASM_POLICY and
+ * SARCASM_THRESHOLD
+ */
+export function getSentimentPolicy(): SentimentPolicy {
+  const threshold = process.env.SARCASM_THRESHOLD;
+  return resolveSentimentPolicy({
+    engine: process.env.SENTIMENT_ENGINE || undefined,
+    sarcasm: process.env.SARCASM_POLICY || undefined,
+    threshold: threshold ? Number(threshold) : undefined,
+  });
+}
+
+/**
+ * Apply the sarcasm policy to scores. Dampening moves them towards neutral
+ * and inverting towards the opposite polarity, both in proportion to the
+ * sarcasm confidence, so a fully confident "invert" flips the sign.
+ */
+export function adjustForSarcasm(
+  scores: SentimentScores,
+  sarcasm: { confidence: number } | undefined,
+  policy: SentimentPolicy
+): SentimentScores {
+  if (
+    !sarcasm ||
+    policy.sarcasm === "none" ||
+    sarcasm.confidence === 0 ||
+    sarcasm.confidence < policy.threshold
+  ) {
+    return scores;
+  }
+
+  const weight = Math.min(sarcasm.confidence, 100) / 100;
+  if (policy.sarcasm === "dampen") {
+    const pos = scores.pos * (1 - weight);
+    const neg = scores.neg * (1 - weight);
+    return {
+      compound: scores.compound * (1 - weight),
+      pos,
+      neu: 1 - pos - neg,
+      neg,
+    };
+  }
+  return {
+    compound: scores.compound * (1 - 2 * weight),
+    pos: scores.pos * (1 - weight) + scores.neg * weight,
+    neu: scores.neu,
+    neg: scores.neg * (1 - weight) + scores.pos * weight,
+  };
+}
+
+// Anything with text and a Reddit score: comments or the post itself
+interface ScoredText {
+  text: string;
+  normalizedText?: string;
+  sarcasm?: { confidence: number };
+  score: number;
+  language?: LanguageDetection;
+  sentiment?: SentimentAnalysis;
+}
+
+/**
+ * The engine of a policy (the configured one by default), falling back to
+ * VADER for engines no longer registered
+ */
+export function getPolicyEngine(
+  policy: SentimentPolicy = getSentimentPolicy()
+): SentimentEngine {
+  return (
+    getSentimentEngine(policy.engine) ||
+    getSentimentEngine(DEFAULT_SENTIMENT_ENGINE)!
   );
+}
+
+function analyzeCommentSentiment(
+  comment: ScoredText,
+  policy: SentimentPolicy
+): SentimentAnalysis {
+  const engine = getPolicyEngine(policy);
+  const original = engine.score(comment.text);
+  const normalized =
+    comment.normalizedText && comment.normalizedText !== comment.text
+      ? engine.score(comment.normalizedText)
+      : original;
+  const overall = adjustForSarcasm(normalized, comment.sarcasm, policy);
 
   return {
-    original: sentiment,
-    overall: sentiment,
-    label: getSentimentLabel(sentiment.compound),
+    original,
+    overall,
+    label: getSentimentLabel(overall.compound),
+    adjustment: {
+      slang: normalized.compound - original.compound,
+      sarcasm: overall.compound - normalized.compound,
+      total: overall.compound - original.compound,
+    },
   };
 }
 
-function calculateWeightedAverageSentiment(
-  comments: RedditComment[]
+function averageScores(
+  scores: SentimentScores[],
+  weights: number[]
 ): SentimentScores {
-  if (comments.length === 0) {
-    return { compound: 0, pos: 0, neu: 0, neg: 0 };
-  }
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const average = (key: keyof SentimentScores) =>
+    scores.reduce((sum, score, i) => sum + score[key] * weights[i], 0) /
+    totalWeight;
 
-  // Filter out comments with zero or negative scores for weighting
-  const validComments = comments.filter((comment) => comment.score > 0);
+  return {
+    compound: average("compound"),
+    pos: average("pos"),
+    neu: average("neu"),
+    neg: average("neg"),
+  };
+}
 
-  if (validComments.length === 0) {
-    // If no comments have positive scores, fall back to simple average
-    const simpleAvg = comments.reduce(
-      (acc, comment) => {
-        const sentiment = VADER.SentimentIntensityAnalyzer.polarity_scores(
-          comment.text
-        );
-        return {
-          compound: acc.compound + sentiment.compound,
-          pos: acc.pos + sentiment.pos,
-          neu: acc.neu + sentiment.neu,
-          neg: acc.neg + sentiment.neg,
-        };
-      },
-      { compound: 0, pos: 0, neu: 0, neg: 0 }
-    );
+/**
+ * Average the original and adjusted sentiment of posts and comments,
+ * weighted by their Reddit score
+ */
+function calculateWeightedAverageSentiment(
+  scoredTexts: ScoredText[]
+): SentimentAnalysis {
+  // The engines score other languages as neutral noise, leave them out
+  const comments = scoredTexts.filter(
+    (comment) => comment.sentiment && isScorable(comment.language)
+  );
 
+  if (comments.length === 0) {
+    const neutral = { compound: 0, pos: 0, neu: 0, neg: 0 };
     return {
-      compound: simpleAvg.compound / comments.length,
-      pos: simpleAvg.pos / comments.length,
-      neu: simpleAvg.neu / comments.length,
-      neg: simpleAvg.neg / comments.length,
+      original: neutral,
+      overall: neutral,
+      label: "neutral",
+      adjustment: { slang: 0, sarcasm: 0, total: 0 },
     };
   }
 
-  let totalScore = 0;
-  const weightedSum = validComments.reduce(
-    (acc, comment) => {
-      const sentiment = VADER.SentimentIntensityAnalyzer.polarity_scores(
-        comment.text
-      );
-      totalScore += comment.score;
-      return {
-        compound: acc.compound + sentiment.compound * comment.score,
-        pos: acc.pos + sentiment.pos * comment.score,
-        neu: acc.neu + sentiment.neu * comment.score,
-        neg: acc.neg + sentiment.neg * comment.score,
-      };
-    },
-    { compound: 0, pos: 0, neu: 0, neg: 0 }
+  // Filter out comments with zero or negative scores for weighting, and
+  // fall back to a simple average if no comments have positive scores
+  const validComments = comments.filter((comment) => comment.score > 0);
+  const weighted = validComments.length > 0 ? validComments : comments;
+  const weights = weighted.map((comment) =>
+    validComments.length > 0 ? comment.score : 1
   );
 
+  const original = averageScores(
+    weighted.map((comment) => comment.sentiment!.original),
+    weights
+  );
+  const overall = averageScores(
+    weighted.map((comment) => comment.sentiment!.overall),
+    weights
+  );
+  const total = overall.compound - original.compound;
+  const slang =
+    weighted.reduce(
+      (sum, comment, i) =>
+        sum + (comment.sentiment!.adjustment?.slang || 0) * weights[i],
+      0
+    ) / weights.reduce((sum, weight) => sum + weight, 0);
+
+  return {
+    original,
+    overall,
+    label: getSentimentLabel(overall.compound),
+    adjustment: { slang, sarcasm: total - slang, total },
+  };
+}
+
+/**
+ * The post as scored text, or null when it was not preprocessed
+ */
+function getScoredPost(discussion: Discussion): ScoredText | null {
+  if (!discussion.post?.text) return null;
   return {
-    compound: weightedSum.compound / totalScore,
-    pos: weightedSum.pos / totalScore,
-    neu: weightedSum.neu / totalScore,
-    neg: weightedSum.neg / totalScore,
+    text: discussion.post.text,
+    normalizedText: discussion.post.normalizedText,
+    sarcasm: discussion.post.sarcasm,
+    score: discussion.score,
+    language: discussion.post.language,
+    sentiment: discussion.post.sentiment,
   };
 }
 
+/**
+ * Score posts and comments at every depth and average them per discussion
+ * and for the subreddit, with the policy in `metadata.sentimentPolicy`,
+ * recording the default one when none is set
+ */
 export function analyzeRedditData(data: RedditData): RedditData {
+  const policy = data.metadata.sentimentPolicy || getSentimentPolicy();
+
   // Recursive function to analyze sentiment for comments and all their replies
   const analyzeCommentSentimentRecursive = (comment: RedditComment) => {
-    comment.sentiment = analyzeCommentSentiment(comment);
+    comment.sentiment = analyzeCommentSentiment(comment, policy);
 
     // Process replies recursively
     if (comment.replies && comment.replies.length > 0) {
@@ -101,25 +299,33 @@ export function analyzeRedditData(data: RedditData): RedditData {
       analyzeCommentSentimentRecursive(comment);
     });
 
-    // Calculate discussion-level sentiment using weighted average
-    const discussionSentiment = calculateWeightedAverageSentiment(
+    const post = getScoredPost(discussion);
+    if (discussion.post && post) {
+      discussion.post.sentiment = analyzeCommentSentiment(post, policy);
+      discussion.postSentiment = discussion.post.sentiment;
+      post.sentiment = discussion.post.sentiment;
+    }
+
+    // Community response: weighted average of top-level comments
+    discussion.responseSentiment = calculateWeightedAverageSentiment(
       discussion.comments
     );
-    discussion.sentiment = {
-      original: discussionSentiment,
-      overall: discussionSentiment,
-      label: getSentimentLabel(discussionSentiment.compound),
-    };
+
+    // Discussion-level sentiment weighs the post like any other comment
+    discussion.sentiment = calculateWeightedAverageSentiment(
+      post ? [post, ...discussion.comments] : discussion.comments
+    );
   });
 
   // Calculate subreddit-level sentiment using weighted average
-  const allComments = data.discussions.flatMap((d) => d.comments);
-  const subredditSentiment = calculateWeightedAverageSentiment(allComments);
-  data.sentiment = {
-    original: subredditSentiment,
-    overall: subredditSentiment,
-    label: getSentimentLabel(subredditSentiment.compound),
-  };
+  const allComments = data.discussions.flatMap((d) => {
+    const post = getScoredPost(d);
+    return post ? [post, ...d.comments] : d.comments;
+  });
+  data.sentiment = calculateWeightedAverageSentiment(allComments);
+  data.metadata.sentimentPolicy = policy;
+  data.metadata.languages = summarizeLanguages(data);
+  data.metadata.emoji = summarizeEmoji(data);
 
   return data;
 }
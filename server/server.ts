@@ -2,22 +2,77 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { serveStatic } from "hono/bun";
-import { fetchComments, initializeReddit } from "./reddit";
-import { categories, type Category } from "./types/categories";
+import { createMiddleware } from "hono/factory";
+import { createHash, timingSafeEqual } from "crypto";
+import {
+  fetchSubreddits,
+  createDataSource,
+  initializeReddit,
+} from "./reddit";
+import {
+  getDataSourceConfig,
+  mergeCoverage,
+  RequestBudget,
+  TIME_FILTERS,
+} from "./datasource";
+import { discoverSubreddits, MAX_DISCOVERY_POSTS } from "./discovery";
+import type {
+  CategoryDefinition,
+  ResolvedSubreddits,
+} from "./types/categories";
+import type { SamplingOptions, TimeFilter } from "./types/datasource";
+import { resolveSubreddits } from "./subreddits";
+import { resolveSampling } from "./sampling";
+import { resolveQuery } from "./query";
+import type { ParsedQuery } from "./types/query";
+import { refreshAnalysis } from "./refresh";
+import { getContentFilterConfig, mergeFilterStats } from "./filters";
+import { deduplicateRedditData } from "./dedup";
+import { isScorable, mergeLanguageStats, resolveLanguages } from "./language";
+import { mergeEmojiStats } from "./emoji";
+import { getSentimentPolicy, resolveSentimentPolicy } from "./sentiment";
+import { getSentimentEngines } from "./engines";
+import type { SentimentPolicy } from "./types/sentiment";
+import {
+  getPreprocessingConfig,
+  getPreprocessingStages,
+  resolvePreprocessing,
+} from "./preprocessing";
+import type { PreprocessingConfig } from "./types/preprocessing";
+import {
+  GLOBAL_LEXICON,
+  getSlangDictionary,
+  getSlangLexicon,
+  listSlangLexicons,
+  mergeSlangEntries,
+  resolveSlangEntries,
+} from "./slang";
+import { loadSlangLexicons, saveSlangLexiconEntries } from "./lexicons";
+import type { SlangEntry, SlangLexicon } from "./types/slang";
+import { loadCategories, toCategoryMap, validateCategory } from "./categories";
 import type { RedditData } from "./types/reddit";
 import { NERService } from "./ner";
+import { countComments } from "./threads";
 import {
   getCachedAnalysis,
   saveConsolidatedAnalysis,
   getRecentQueries,
   getAnalysisById,
+  updateConsolidatedAnalysis,
   cleanupOldAnalyses,
+  getCategoryByKey,
+  createCategory,
+  updateCategory,
+  deleteCategory,
 } from "./storage";
 
 const app = new Hono();
 
 let nerService: NERService | null = null;
 
+// Selected from DATA_SOURCE (reddit or fixture, memory is rejected at startup)
+const dataSourceConfig = getDataSourceConfig();
+
 app.use("*", logger());
 
 // Configure CORS based on environment
@@ -58,12 +113,6 @@ app.get("/api/test", (c) => {
 
 // Transform Reddit data into network structure with entity analysis consolidation
 async function buildNetworkData(data: RedditData, entityAnalyses: any[] = []) {
-  const countComments = (comments: any[]): number => {
-    return comments.reduce((count, comment) => {
-      return count + 1 + countComments(comment.replies || []);
-    }, 0);
-  };
-
   // Consolidate entity analyses from all subreddits
   let consolidatedEntityAnalysis = null;
   if (entityAnalyses.length > 0) {
@@ -125,9 +174,9 @@ async function buildNetworkData(data: RedditData, entityAnalyses: any[] = []) {
 
     // Calculate weighted sentiment using comment scores
     const commentSentiments = discussion.comments
-      .filter((c) => c.sentiment)
+      .filter((c) => c.sentiment && isScorable(c.language))
       .map((c) => ({
-        sentiment: c.sentiment!.original.compound,
+        sentiment: c.sentiment!.overall.compound,
         score: c.score,
       }));
 
@@ -152,11 +201,24 @@ async function buildNetworkData(data: RedditData, entityAnalyses: any[] = []) {
     id: `${data.category}-${data.query}-${Date.now()}`,
     category: data.category,
     query: data.query,
+    parsedQuery: data.metadata.parsedQuery,
     timeframe: data.metadata.timeframe,
     minPostScore: data.metadata.minScore,
+    sampling: data.metadata.sampling,
     totalComments: data.metadata.totalComments,
     totalDiscussions: data.metadata.totalDiscussions,
     scrapedAt: data.metadata.scrapedAt,
+    coverage: data.metadata.coverage,
+    filtered: data.metadata.filtered,
+    deduplicated: data.metadata.deduplicated,
+    languageFilter: data.metadata.languageFilter || [],
+    languages: data.metadata.languages,
+    emoji: data.metadata.emoji,
+    preprocessing: data.metadata.preprocessing,
+    slangVersion: data.metadata.slangVersion,
+    customSlang: data.metadata.customSlang || [],
+    sentimentPolicy: data.metadata.sentimentPolicy,
+    failedSubreddits: data.metadata.failedSubreddits || [],
     createdAt: new Date().toISOString(),
     discussions: transformedDiscussions,
     subreddits: uniqueSubreddits,
@@ -184,23 +246,88 @@ async function buildNetworkData(data: RedditData, entityAnalyses: any[] = []) {
 app.post("/api/analyze", async (c) => {
   try {
     const body = await c.req.json();
-    const { query, category, timeframe, minPostScore, includeEntities } = body;
+    const { query, includeEntities } = body;
+
+    if (!query) {
+      return c.json({ success: false, error: "Query is required" }, 400);
+    }
+
+    // A category, an explicit subreddit list, or a category with include/exclude lists
+    const categoryList = await loadCategories();
+    let selection: ResolvedSubreddits;
+    let sampling: SamplingOptions;
+    let parsedQuery: ParsedQuery;
+    let languageFilter: string[];
+    let preprocessing: PreprocessingConfig;
+    let customSlang: SlangEntry[];
+    let sentimentPolicy: SentimentPolicy;
+    try {
+      parsedQuery = resolveQuery(query, body.expandSynonyms);
+      languageFilter = resolveLanguages(body.languages);
+      preprocessing = resolvePreprocessing(
+        body.preprocessing,
+        getPreprocessingConfig()
+      );
+      customSlang = resolveSlangEntries(body.slang);
+      sentimentPolicy = resolveSentimentPolicy(
+        body.sentimentPolicy,
+        getSentimentPolicy()
+      );
+      selection = resolveSubreddits(
+        {
+          category: body.category,
+          subreddits: body.subreddits,
+          include: body.include,
+          exclude: body.exclude,
+        },
+        toCategoryMap(categoryList)
+      );
+      sampling = resolveSampling({
+        searchSort: body.searchSort,
+        postLimit: body.postLimit,
+        commentSort: body.commentSort,
+        commentLimit: body.commentLimit,
+      });
+    } catch (error: any) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    const { category, subreddits } = selection;
 
-    if (!query || !category) {
+    // Fall back to the category's defaults, then the global ones
+    const categoryDefinition = categoryList.find((def) => def.key === category);
+    const timeframe: TimeFilter =
+      body.timeframe || categoryDefinition?.defaultTimeframe || "week";
+    if (!TIME_FILTERS.includes(timeframe)) {
       return c.json(
-        { success: false, error: "Query and category are required" },
+        {
+          success: false,
+          error: `Invalid timeframe. Choose from: ${TIME_FILTERS.join(", ")}`,
+        },
         400
       );
     }
+    const minPostScore =
+      body.minPostScore ?? categoryDefinition?.defaultMinScore ?? 50;
+    // Edited lexicons give a new version, so older results are not reused
+    const slangVersion = getSlangDictionary(category, customSlang).version;
 
-    console.log(`🔍 Starting analysis for "${query}" in ${category}`);
+    console.log(
+      `🔍 Starting analysis for "${query}" in ${category} (${subreddits.length} subreddits)`
+    );
 
     // Check cache first (within last 24 hours)
     const cachedResult = await getCachedAnalysis(
       query,
       category,
-      timeframe || "week",
-      minPostScore || 50
+      subreddits,
+      timeframe,
+      minPostScore,
+      sampling,
+      parsedQuery.expanded,
+      languageFilter,
+      preprocessing,
+      slangVersion,
+      sentimentPolicy
     );
 
     if (cachedResult) {
@@ -215,11 +342,24 @@ app.post("/api/analyze", async (c) => {
           category: cachedResult.category,
           metadata: {
             query: cachedResult.query,
+            parsedQuery: cachedResult.parsedQuery,
             timeframe: cachedResult.timeframe,
             minScore: cachedResult.minScore,
+            sampling: cachedResult.sampling,
+            subreddits: cachedResult.subreddits,
             totalComments: cachedResult.totalComments,
             totalDiscussions: cachedResult.totalDiscussions,
-            scrapedAt: cachedResult.createdAt.toISOString(),
+            scrapedAt: cachedResult.scrapedAt.toISOString(),
+            coverage: cachedResult.coverage,
+            filtered: cachedResult.filtered,
+            deduplicated: cachedResult.deduplicated,
+            languageFilter: cachedResult.languageFilter,
+            languages: cachedResult.languages,
+            emoji: cachedResult.emoji,
+            preprocessing: cachedResult.preprocessing,
+            slangVersion: cachedResult.slangVersion,
+            customSlang: cachedResult.customSlang,
+            sentimentPolicy: cachedResult.sentimentPolicy,
           },
           discussions: cachedResult.discussions,
           sentiment: cachedResult.sentimentAnalysis,
@@ -237,20 +377,10 @@ app.post("/api/analyze", async (c) => {
 
     console.log(`🔄 No cache found, fetching fresh data for "${query}"`);
 
-    if (!categories[category as Category]) {
-      return c.json(
-        {
-          success: false,
-          error: `Invalid category. Choose from: ${Object.keys(categories).join(
-            ", "
-          )}`,
-        },
-        400
-      );
-    }
-
     try {
-      const reddit = await initializeReddit();
+      // One data source per analysis, it holds per-analysis fetch state
+      const dataSource = createDataSource(dataSourceConfig);
+      await dataSource.initialize?.();
 
       // Initialize NER service if entities are requested
       if (includeEntities && !nerService) {
@@ -259,52 +389,63 @@ app.post("/api/analyze", async (c) => {
         await nerService.initialize();
       }
 
-      const subreddits = categories[category as Category];
-      const allData: RedditData[] = [];
-      const subredditsToProcess = subreddits;
       const allEntityAnalyses: any[] = [];
 
-      // Process all subreddits in the category
-      for (const subreddit of subredditsToProcess) {
-        try {
-          console.log(`📱 Processing r/${subreddit}...`);
-
-          const data = await fetchComments(
-            reddit,
-            subreddit,
-            query,
-            category,
-            timeframe as any,
-            minPostScore,
-            5
-          );
-
-          if (data) {
-            if (includeEntities && nerService) {
-              try {
-                console.log(
-                  `🔍 Starting entity analysis for r/${subreddit}...`
-                );
-                const entityAnalysis = await nerService.analyzeEntities(data);
-                allEntityAnalyses.push(entityAnalysis);
-                console.log(
-                  `✅ Found ${entityAnalysis.totalEntities} unique entities in r/${subreddit}`
-                );
-              } catch (entityError) {
-                console.error(
-                  `❌ Error during entity analysis for r/${subreddit}:`,
-                  entityError
-                );
-              }
-            }
-
-            allData.push(data);
+      // Fetch the selected subreddits a few at a time, sharing one "load more" budget
+      const { data: allData, failed: failedSubreddits } = await fetchSubreddits(
+        dataSource,
+        {
+          subreddits,
+          query: parsedQuery.text,
+          parsedQuery,
+          category,
+          timeframe,
+          minPostScore,
+          sampling,
+          languageFilter,
+          preprocessing,
+          customSlang,
+          sentimentPolicy,
+        },
+        new RequestBudget(dataSourceConfig.expansionBudget!),
+        dataSourceConfig.concurrency!.subreddits
+      );
+
+      // Shared subreddits and crossposts would count the same comments twice
+      const deduplicated = deduplicateRedditData(allData);
+
+      for (const data of allData) {
+        if (includeEntities && nerService) {
+          try {
+            console.log(
+              `🔍 Starting entity analysis for r/${data.subreddit}...`
+            );
+            const entityAnalysis = await nerService.analyzeEntities(data);
+            allEntityAnalyses.push(entityAnalysis);
+            console.log(
+              `✅ Found ${entityAnalysis.totalEntities} unique entities in r/${data.subreddit}`
+            );
+          } catch (entityError) {
+            console.error(
+              `❌ Error during entity analysis for r/${data.subreddit}:`,
+              entityError
+            );
           }
-        } catch (error) {
-          console.error(`Error processing r/${subreddit}:`, error);
         }
       }
 
+      if (allData.length === 0 && failedSubreddits.length > 0) {
+        return c.json(
+          {
+            success: false,
+            error: `Failed to fetch data from Reddit for ${failedSubreddits
+              .map((failure) => `r/${failure.subreddit}`)
+              .join(", ")}. Please try again later.`,
+          },
+          502
+        );
+      }
+
       if (allData.length === 0) {
         return c.json(
           {
@@ -329,8 +470,11 @@ app.post("/api/analyze", async (c) => {
         category,
         metadata: {
           query,
+          parsedQuery,
           timeframe,
           minScore: minPostScore,
+          subreddits,
+          sampling,
           totalComments: allData.reduce(
             (sum, d) => sum + d.metadata.totalComments,
             0
@@ -340,6 +484,17 @@ app.post("/api/analyze", async (c) => {
             0
           ),
           scrapedAt: new Date().toISOString(),
+          coverage: mergeCoverage(allData),
+          filtered: mergeFilterStats(allData),
+          deduplicated,
+          languageFilter,
+          preprocessing,
+          customSlang,
+          slangVersion,
+          sentimentPolicy,
+          languages: mergeLanguageStats(allData),
+          emoji: mergeEmojiStats(allData),
+          failedSubreddits,
         },
         discussions: allDiscussions,
       };
@@ -393,17 +548,322 @@ app.post("/api/analyze", async (c) => {
   }
 });
 
-app.get("/api/categories", (c) => {
+// Rank subreddits discussing a query, to pick an ad-hoc subreddit list
+app.get("/api/discover", async (c) => {
+  const query = c.req.query("query")?.trim();
+  const timeframe = (c.req.query("timeframe") || "month") as TimeFilter;
+  const postLimit = parseInt(c.req.query("limit") || "100", 10);
+  const includeNsfw = c.req.query("nsfw") === "true";
+
+  if (!query) {
+    return c.json({ success: false, error: "Query is required" }, 400);
+  }
+  if (!TIME_FILTERS.includes(timeframe)) {
+    return c.json(
+      {
+        success: false,
+        error: `Invalid timeframe. Choose from: ${TIME_FILTERS.join(", ")}`,
+      },
+      400
+    );
+  }
+  if (isNaN(postLimit) || postLimit < 1 || postLimit > MAX_DISCOVERY_POSTS) {
+    return c.json(
+      {
+        success: false,
+        error: `Limit must be between 1 and ${MAX_DISCOVERY_POSTS}`,
+      },
+      400
+    );
+  }
+  if (dataSourceConfig.type !== "reddit") {
+    return c.json(
+      {
+        success: false,
+        error: `Subreddit discovery needs the reddit data source (current: ${dataSourceConfig.type})`,
+      },
+      501
+    );
+  }
+
+  try {
+    const reddit = await initializeReddit();
+    const result = await discoverSubreddits(reddit, query, {
+      timeframe,
+      postLimit,
+      includeNsfw,
+    });
+    return c.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error discovering subreddits:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to search Reddit. Please try again later.",
+      },
+      500
+    );
+  }
+});
+
+// Stages an analysis can list in "preprocessing", and the default pipeline
+app.get("/api/preprocessing", (c) => {
+  return c.json({
+    success: true,
+    data: {
+      stages: getPreprocessingStages().map(({ name, description }) => ({
+        name,
+        description,
+      })),
+      default: getPreprocessingConfig().stages,
+    },
+  });
+});
+
+// Engines an analysis can choose in "sentimentPolicy", and the default
+app.get("/api/sentiment/engines", (c) => {
+  return c.json({
+    success: true,
+    data: {
+      engines: getSentimentEngines().map(({ name, description }) => ({
+        name,
+        description,
+      })),
+      default: getSentimentPolicy().engine,
+    },
+  });
+});
+
+function toSlangLexiconResponse(lexicon: SlangLexicon) {
+  return {
+    key: lexicon.key,
+    version: lexicon.version,
+    source: lexicon.source,
+    terms: lexicon.entries.length,
+  };
+}
+
+app.get("/api/slang", (c) => {
+  return c.json({
+    success: true,
+    data: listSlangLexicons().map(toSlangLexiconResponse),
+  });
+});
+
+app.get("/api/slang/:key", (c) => {
+  const lexicon = getSlangLexicon(c.req.param("key"));
+  if (!lexicon) {
+    return c.json({ success: false, error: "Slang lexicon not found" }, 404);
+  }
+  return c.json({
+    success: true,
+    data: { ...toSlangLexiconResponse(lexicon), entries: lexicon.entries },
+  });
+});
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Lexicon and category edits change every later analysis, so they need the
+// ADMIN_TOKEN as a bearer token; without one configured they are disabled
+const requireAdmin = createMiddleware(async (c, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return c.json(
+      {
+        success: false,
+        error: "Editing is disabled, set ADMIN_TOKEN to enable it",
+      },
+      403
+    );
+  }
+
+  const given = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!given || !timingSafeEqual(digest(given), digest(token))) {
+    return c.json({ success: false, error: "Invalid admin token" }, 401);
+  }
+  await next();
+});
+
+// Lexicons exist for "global" and for categories, a category without a
+// lexicon file gets one on its first edit
+async function isSlangLexiconKey(key: string) {
+  const categoryList = await loadCategories();
+  return (
+    key === GLOBAL_LEXICON ||
+    categoryList.some((category) => category.key === key)
+  );
+}
+
+// Replace all entries of a lexicon
+app.put("/api/slang/:key", requireAdmin, async (c) => {
+  try {
+    const key = c.req.param("key");
+    if (!(await isSlangLexiconKey(key))) {
+      return c.json({ success: false, error: "Slang lexicon not found" }, 404);
+    }
+
+    let entries: SlangEntry[];
+    try {
+      entries = resolveSlangEntries((await c.req.json()).entries ?? {});
+    } catch (error: any) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    const saved = await saveSlangLexiconEntries(key, entries);
+    return c.json({
+      success: true,
+      data: { ...toSlangLexiconResponse(saved), entries: saved.entries },
+    });
+  } catch (error) {
+    console.error("Error saving slang lexicon:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to save slang lexicon",
+      },
+      500
+    );
+  }
+});
+
+// Add, change or remove (with null) some entries of a lexicon
+app.patch("/api/slang/:key", requireAdmin, async (c) => {
+  try {
+    const key = c.req.param("key");
+    if (!(await isSlangLexiconKey(key))) {
+      return c.json({ success: false, error: "Slang lexicon not found" }, 404);
+    }
+
+    let entries: SlangEntry[];
+    try {
+      entries = mergeSlangEntries(
+        getSlangLexicon(key)?.entries || [],
+        (await c.req.json()).entries
+      );
+    } catch (error: any) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    const saved = await saveSlangLexiconEntries(key, entries);
+    return c.json({
+      success: true,
+      data: { ...toSlangLexiconResponse(saved), entries: saved.entries },
+    });
+  } catch (error) {
+    console.error("Error saving slang lexicon:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to save slang lexicon",
+      },
+      500
+    );
+  }
+});
+
+function toCategoryResponse(category: CategoryDefinition) {
+  return {
+    value: category.key,
+    label: category.label,
+    description: category.description,
+    subreddits: category.subreddits,
+    defaultTimeframe: category.defaultTimeframe,
+    defaultMinScore: category.defaultMinScore,
+  };
+}
+
+app.get("/api/categories", async (c) => {
+  const categoryList = await loadCategories();
   return c.json({
     success: true,
-    data: Object.keys(categories).map((key) => ({
-      value: key,
-      label: key.charAt(0).toUpperCase() + key.slice(1),
-      subreddits: categories[key as Category],
-    })),
+    data: categoryList.map(toCategoryResponse),
   });
 });
 
+app.post("/api/categories", requireAdmin, async (c) => {
+  try {
+    let category: CategoryDefinition;
+    try {
+      category = validateCategory(await c.req.json());
+    } catch (error: any) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    // Seeds the built-in categories first if the database is still empty
+    await loadCategories();
+    if (await getCategoryByKey(category.key)) {
+      return c.json(
+        {
+          success: false,
+          error: `Category "${category.key}" already exists`,
+        },
+        409
+      );
+    }
+
+    const created = await createCategory(category);
+    return c.json({ success: true, data: toCategoryResponse(created) }, 201);
+  } catch (error) {
+    console.error("Error creating category:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to create category",
+      },
+      500
+    );
+  }
+});
+
+app.put("/api/categories/:key", requireAdmin, async (c) => {
+  try {
+    const existing = await getCategoryByKey(c.req.param("key"));
+    if (!existing) {
+      return c.json({ success: false, error: "Category not found" }, 404);
+    }
+
+    let category: CategoryDefinition;
+    try {
+      category = validateCategory(await c.req.json(), existing);
+    } catch (error: any) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    const updated = await updateCategory(category);
+    return c.json({ success: true, data: toCategoryResponse(updated) });
+  } catch (error) {
+    console.error("Error updating category:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to update category",
+      },
+      500
+    );
+  }
+});
+
+app.delete("/api/categories/:key", requireAdmin, async (c) => {
+  try {
+    const key = c.req.param("key");
+    if (!(await getCategoryByKey(key))) {
+      return c.json({ success: false, error: "Category not found" }, 404);
+    }
+
+    await deleteCategory(key);
+    return c.json({ success: true, message: `Deleted category "${key}"` });
+  } catch (error) {
+    console.error("Error deleting category:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete category",
+      },
+      500
+    );
+  }
+});
+
 app.get("/api/recent", async (c) => {
   try {
     const limit = Number(c.req.query("limit")) || 10;
@@ -447,11 +907,24 @@ app.get("/api/analysis/:id", async (c) => {
         category: analysis.category,
         metadata: {
           query: analysis.query,
+          parsedQuery: analysis.parsedQuery,
           timeframe: analysis.timeframe,
           minScore: analysis.minScore,
+          sampling: analysis.sampling,
+          subreddits: analysis.subreddits,
           totalComments: analysis.totalComments,
           totalDiscussions: analysis.totalDiscussions,
-          scrapedAt: analysis.createdAt.toISOString(),
+          scrapedAt: analysis.scrapedAt.toISOString(),
+          coverage: analysis.coverage,
+          filtered: analysis.filtered,
+          deduplicated: analysis.deduplicated,
+          languageFilter: analysis.languageFilter,
+          languages: analysis.languages,
+          emoji: analysis.emoji,
+          preprocessing: analysis.preprocessing,
+          slangVersion: analysis.slangVersion,
+          customSlang: analysis.customSlang,
+          sentimentPolicy: analysis.sentimentPolicy,
         },
         discussions: analysis.discussions,
         sentiment: analysis.sentimentAnalysis,
@@ -477,6 +950,94 @@ app.get("/api/analysis/:id", async (c) => {
   }
 });
 
+// Fetch new posts and comments since the analysis was scraped and merge them in
+app.post("/api/analysis/:id/refresh", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const analysis = await getAnalysisById(id);
+
+    if (!analysis) {
+      return c.json(
+        {
+          success: false,
+          error: "Analysis not found",
+        },
+        404
+      );
+    }
+
+    // Archive imports cover a date range instead of a Reddit time filter
+    if (!TIME_FILTERS.includes(analysis.timeframe as TimeFilter)) {
+      return c.json(
+        {
+          success: false,
+          error: `Only analyses fetched with a time filter can be refreshed (this one covers ${analysis.timeframe})`,
+        },
+        400
+      );
+    }
+
+    const dataSource = createDataSource(dataSourceConfig);
+    await dataSource.initialize?.();
+
+    // Entities are only recomputed for analyses that had them
+    if (analysis.entityAnalysis && !nerService) {
+      console.log("🤖 Initializing NER service for entity analysis...");
+      nerService = new NERService();
+      await nerService.initialize();
+    }
+
+    const { data, entityAnalyses, stats } = await refreshAnalysis(
+      analysis,
+      dataSource,
+      new RequestBudget(dataSourceConfig.expansionBudget!),
+      dataSourceConfig.concurrency!.subreddits,
+      analysis.entityAnalysis ? nerService : null
+    );
+
+    const failedSubreddits = data.metadata.failedSubreddits || [];
+    if (stats.fetchedSubreddits === 0 && failedSubreddits.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: `Failed to fetch data from Reddit for ${failedSubreddits
+            .map((failure) => `r/${failure.subreddit}`)
+            .join(", ")}. Please try again later.`,
+        },
+        502
+      );
+    }
+
+    await updateConsolidatedAnalysis(id, data, entityAnalyses);
+
+    const networkData = await buildNetworkData(
+      data,
+      entityAnalyses.length > 0
+        ? entityAnalyses
+        : analysis.entityAnalysis
+          ? [analysis.entityAnalysis]
+          : []
+    );
+
+    return c.json({
+      success: true,
+      cached: false,
+      refreshed: stats,
+      data: { ...networkData, id },
+      message: `Refreshed "${analysis.query}": ${stats.newDiscussions} new posts, ${stats.newComments} new comments`,
+    });
+  } catch (error) {
+    console.error("Error refreshing analysis:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to refresh analysis",
+      },
+      500
+    );
+  }
+});
+
 app.post("/api/cleanup", async (c) => {
   try {
     const deletedCount = await cleanupOldAnalyses();
@@ -507,26 +1068,56 @@ app.notFound(async (c) => {
   return c.html(content);
 });
 
-const port = process.env.PORT || 3001;
-
-console.log(`🚀 Reddit Sentiment Network API starting on port ${port}`);
-console.log(`🎯 Available endpoints:`);
-console.log(`   GET  /health - Health check`);
-console.log(`   GET  /api/test - Test endpoint`);
-console.log(`   GET  /api/categories - Get available categories`);
-console.log(`   GET  /api/recent - Get recent queries`);
-console.log(`   GET  /api/analysis/:id - Get analysis by ID`);
-console.log(`   POST /api/analyze - Start Reddit analysis`);
-console.log(`   POST /api/cleanup - Cleanup old analyses`);
-console.log(
-  process.env.NODE_ENV === "production"
-    ? `🔗 CORS enabled for: all origins (production mode)`
-    : `🔗 CORS enabled for: http://localhost:3000, http://localhost:5173`
-);
+// Tests import the app and send it requests without listening on a port
+export { app };
 
-Bun.serve({
-  port: Number(port),
-  fetch: app.fetch,
-});
+if (import.meta.main) {
+  const port = process.env.PORT || 3001;
 
-console.log(`✅ Server running on http://localhost:${port}`);
+  // Nothing registers discussions in the server process, so every analysis
+  // would come back empty
+  if (dataSourceConfig.type === "memory") {
+    console.error(
+      "❌ DATA_SOURCE=memory is for scripts and tests, use reddit or fixture to run the server"
+    );
+    process.exit(1);
+  }
+
+  // Fail on invalid FILTER_* settings now rather than on the first analysis
+  getContentFilterConfig();
+  await loadSlangLexicons();
+
+  console.log(`🚀 Reddit Sentiment Network API starting on port ${port}`);
+  console.log(`🎯 Available endpoints:`);
+  console.log(`   GET  /health - Health check`);
+  console.log(`   GET  /api/test - Test endpoint`);
+  console.log(`   GET  /api/categories - Get available categories`);
+  console.log(`   GET  /api/discover - Find subreddits discussing a query`);
+  console.log(`   POST /api/categories - Create a category (admin)`);
+  console.log(`   PUT  /api/categories/:key - Update a category (admin)`);
+  console.log(`   DELETE /api/categories/:key - Delete a category (admin)`);
+  console.log(`   GET  /api/preprocessing - List preprocessing stages`);
+  console.log(`   GET  /api/sentiment/engines - List sentiment engines`);
+  console.log(`   GET  /api/slang - List slang lexicons`);
+  console.log(`   GET  /api/slang/:key - Get a slang lexicon`);
+  console.log(`   PUT  /api/slang/:key - Replace a slang lexicon (admin)`);
+  console.log(`   PATCH /api/slang/:key - Edit slang lexicon entries (admin)`);
+  console.log(`   GET  /api/recent - Get recent queries`);
+  console.log(`   GET  /api/analysis/:id - Get analysis by ID`);
+  console.log(`   POST /api/analysis/:id/refresh - Merge new posts and comments`);
+  console.log(`   POST /api/analyze - Start Reddit analysis`);
+  console.log(`   POST /api/cleanup - Cleanup old analyses`);
+  console.log(`📦 Data source: ${dataSourceConfig.type}`);
+  console.log(
+    process.env.NODE_ENV === "production"
+      ? `🔗 CORS enabled for: all origins (production mode)`
+      : `🔗 CORS enabled for: http://localhost:3000, http://localhost:5173`
+  );
+
+  Bun.serve({
+    port: Number(port),
+    fetch: app.fetch,
+  });
+
+  console.log(`✅ Server running on http://localhost:${port}`);
+}
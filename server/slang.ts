@@ -0,0 +1,339 @@
+/**
+ * Slang Lexicons
+ *
+ * This module handles:
+ * - Reading slang lexicons from JSON files
+ * - Validating slang entries from files, edits and analysis requests
+ * - Layering the global lexicon, the category's lexicon and the entries
+ *   given with an analysis into one dictionary with a version
+ * - Replacing slang terms, including phrases, in tokens
+ *
+ * A lexicon file is named after the category it applies to (global.json
+ * for all of them) and holds a version and its entries:
+ * `{ "version": 1, "entries": { "hodl": "hold", "fire": { "meaning":
+ * "excellent", "context": ["is fire", "so fire"] } } }`. An entry with a
+ * context only applies when the text contains one of its phrases, so "this
+ * track is fire" is slang and "the house is on fire" is not. Contexts are
+ * plain phrases rather than patterns: they come with lexicon edits and
+ * analysis requests and are matched against every comment.
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { createHash } from "crypto";
+import type { SlangDictionary, SlangEntry, SlangLexicon } from "./types/slang";
+
+export const GLOBAL_LEXICON = "global";
+
+const MAX_TERM_WORDS = 4;
+const MAX_CONTEXT_PHRASES = 20;
+const MAX_CONTEXT_WORDS = 6;
+
+// Words as contexts and texts are compared: letters, digits, ' and -
+const CONTEXT_WORDS = /[\p{L}\p{N}'’-]+/gu;
+
+const lexicons = new Map<string, SlangLexicon>();
+let loaded = false;
+// Compiled dictionaries by version
+const dictionaries = new Map<string, SlangDictionary>();
+
+/**
+ * Directory with the lexicon files, from SLANG_LEXICON_DIR
+ */
+export function getSlangLexiconDir(): string {
+  return process.env.SLANG_LEXICON_DIR || "./lexicons";
+}
+
+const normalizeTerm = (term: string) =>
+  term.trim().toLowerCase().split(/\s+/).filter(Boolean).join(" ");
+
+function toEntry(term: string, value: unknown): SlangEntry {
+  const entry =
+    typeof value === "string"
+      ? { meaning: value }
+      : value && typeof value === "object"
+      ? (value as Record<string, unknown>)
+      : null;
+  const normalized = normalizeTerm(term);
+  if (!normalized) {
+    throw new Error("Slang terms must be non-empty strings");
+  }
+  if (normalized.split(" ").length > MAX_TERM_WORDS) {
+    throw new Error(
+      `Slang term "${term}" is longer than ${MAX_TERM_WORDS} words`
+    );
+  }
+  if (!entry || typeof entry.meaning !== "string") {
+    throw new Error(`Slang term "${term}" needs a meaning`);
+  }
+
+  const context =
+    entry.context === undefined ? undefined : toContext(term, entry.context);
+
+  return {
+    term: normalized,
+    meaning: entry.meaning.trim(),
+    ...(context ? { context } : {}),
+  };
+}
+
+const toContextPhrase = (phrase: string) =>
+  (phrase.toLowerCase().match(CONTEXT_WORDS) || []).join(" ");
+
+/**
+ * Validate a context: a phrase or a list of phrases made of words
+ */
+function toContext(term: string, value: unknown): string[] {
+  const phrases = typeof value === "string" ? [value] : value;
+  if (
+    !Array.isArray(phrases) ||
+    phrases.length === 0 ||
+    phrases.length > MAX_CONTEXT_PHRASES
+  ) {
+    throw new Error(
+      `Context of slang term "${term}" must be a list of 1 to ${MAX_CONTEXT_PHRASES} phrases`
+    );
+  }
+
+  return phrases.map((phrase) => {
+    const normalized = typeof phrase === "string" ? normalizeTerm(phrase) : "";
+    const words = normalized.split(" ");
+    if (
+      !normalized ||
+      words.length > MAX_CONTEXT_WORDS ||
+      toContextPhrase(normalized) !== normalized
+    ) {
+      throw new Error(
+        `Context of slang term "${term}" must be phrases of up to ${MAX_CONTEXT_WORDS} words, without punctuation or patterns`
+      );
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Validate slang entries: an object mapping terms to meanings (or to
+ * `{ meaning, context }`), or a list of `{ term, meaning, context }`.
+ * Throws with a user-facing message on invalid or repeated terms.
+ */
+export function resolveSlangEntries(value: unknown): SlangEntry[] {
+  if (value === undefined || value === null) return [];
+
+  let entries: SlangEntry[];
+  if (Array.isArray(value)) {
+    entries = value.map((item) => {
+      if (!item || typeof item !== "object" || typeof item.term !== "string") {
+        throw new Error("Slang entries must have a term and a meaning");
+      }
+      return toEntry(item.term, item);
+    });
+  } else if (typeof value === "object") {
+    entries = Object.entries(value).map(([term, item]) => toEntry(term, item));
+  } else {
+    throw new Error(`"slang" must map terms to their meanings`);
+  }
+
+  const terms = entries.map((entry) => entry.term);
+  const repeated = terms.filter((term, index) => terms.indexOf(term) !== index);
+  if (repeated.length > 0) {
+    throw new Error(
+      `Slang term(s) listed more than once: ${[...new Set(repeated)].join(
+        ", "
+      )}`
+    );
+  }
+  return entries;
+}
+
+/**
+ * Apply an edit to a lexicon's entries: terms in `changes` are added or
+ * replaced, terms mapped to null are removed
+ */
+export function mergeSlangEntries(
+  entries: SlangEntry[],
+  changes: unknown
+): SlangEntry[] {
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+    throw new Error(`"entries" must map terms to their meanings or null`);
+  }
+
+  const removed = Object.entries(changes)
+    .filter(([, value]) => value === null)
+    .map(([term]) => normalizeTerm(term));
+  const updated = resolveSlangEntries(
+    Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== null)
+    )
+  );
+  const replaced = new Set([
+    ...removed,
+    ...updated.map((entry) => entry.term),
+  ]);
+
+  return [
+    ...entries.filter((entry) => !replaced.has(entry.term)),
+    ...updated,
+  ];
+}
+
+/**
+ * Read the lexicon files. Throws when a file is not valid, naming the file.
+ */
+export function readSlangLexiconFiles(
+  dir: string = getSlangLexiconDir()
+): SlangLexicon[] {
+  if (!fs.pathExistsSync(dir)) {
+    console.warn(`⚠️ Slang lexicon directory ${dir} not found`);
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      try {
+        const { version, entries } = fs.readJsonSync(path.join(dir, file));
+        return {
+          key: path.basename(file, ".json"),
+          version: Number.isInteger(version) && version > 0 ? version : 1,
+          entries: resolveSlangEntries(entries),
+          source: "file" as const,
+        };
+      } catch (error: any) {
+        throw new Error(`Invalid slang lexicon ${file}: ${error.message}`);
+      }
+    });
+}
+
+/**
+ * Replace the lexicons in use, e.g. after loading edited ones from the
+ * database
+ */
+export function useSlangLexicons(list: SlangLexicon[]): void {
+  lexicons.clear();
+  dictionaries.clear();
+  for (const lexicon of list) {
+    lexicons.set(lexicon.key, lexicon);
+  }
+  loaded = true;
+}
+
+// Lexicon files are read on first use when nothing was loaded
+function ensureLexicons() {
+  if (!loaded) useSlangLexicons(readSlangLexiconFiles());
+}
+
+export function listSlangLexicons(): SlangLexicon[] {
+  ensureLexicons();
+  return [...lexicons.values()];
+}
+
+export function getSlangLexicon(key: string): SlangLexicon | undefined {
+  ensureLexicons();
+  return lexicons.get(key);
+}
+
+/**
+ * Version of a lexicon as analyses record it: "global@3" for a file,
+ * "global@db3" for an edit stored in the database
+ */
+export function getSlangLexiconVersion(lexicon: SlangLexicon): string {
+  return `${lexicon.key}@${lexicon.source === "database" ? "db" : ""}${
+    lexicon.version
+  }`;
+}
+
+const hashEntries = (entries: SlangEntry[]) =>
+  createHash("sha1").update(JSON.stringify(entries)).digest("hex").slice(0, 8);
+
+/**
+ * Combine the global lexicon, the category's lexicon and the entries given
+ * with an analysis. Later layers override earlier ones; an empty meaning
+ * removes the term.
+ */
+export function getSlangDictionary(
+  category: string,
+  custom: SlangEntry[] = []
+): SlangDictionary {
+  ensureLexicons();
+  const layers = [GLOBAL_LEXICON, category]
+    .filter((key, index, keys) => keys.indexOf(key) === index)
+    .map((key) => lexicons.get(key))
+    .filter((lexicon): lexicon is SlangLexicon => !!lexicon);
+
+  const version =
+    [
+      ...layers.map(getSlangLexiconVersion),
+      ...(custom.length > 0 ? [`custom@${hashEntries(custom)}`] : []),
+    ].join("+") || "none";
+  const cached = dictionaries.get(version);
+  if (cached) return cached;
+
+  const entries: SlangDictionary["entries"] = new Map();
+  for (const entry of [...layers.flatMap((layer) => layer.entries), ...custom]) {
+    if (entry.meaning) {
+      entries.set(entry.term, {
+        meaning: entry.meaning,
+        context: entry.context,
+      });
+    } else {
+      entries.delete(entry.term);
+    }
+  }
+
+  const dictionary: SlangDictionary = {
+    version,
+    entries,
+    maxWords: Math.max(
+      1,
+      ...[...entries.keys()].map((term) => term.split(" ").length)
+    ),
+  };
+  dictionaries.set(version, dictionary);
+  return dictionary;
+}
+
+const EDGES = /^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu;
+const TRAILING = /[^\p{L}\p{N}]+$/u;
+
+/**
+ * Replace slang terms in tokens by their meaning, longest phrase first.
+ * Punctuation after a term is kept; entries with a context only apply when
+ * `text` contains one of its phrases.
+ */
+export function applySlang(
+  tokens: string[],
+  dictionary: SlangDictionary,
+  text: string = tokens.join(" ")
+): string[] {
+  const words = tokens.map((token) => token.toLowerCase().replace(EDGES, ""));
+  const result: string[] = [];
+  // The text's words with spaces around, to find whole context phrases
+  let contextText: string | undefined;
+  const inContext = (phrases: string[]) => {
+    contextText ??= ` ${toContextPhrase(text)} `;
+    return phrases.some((phrase) => contextText!.includes(` ${phrase} `));
+  };
+
+  for (let i = 0; i < tokens.length; ) {
+    let length = Math.min(dictionary.maxWords, tokens.length - i);
+    for (; length > 0; length--) {
+      const entry = dictionary.entries.get(words.slice(i, i + length).join(" "));
+      if (entry && (!entry.context || inContext(entry.context))) {
+        const trailing = tokens[i + length - 1].match(TRAILING)?.[0] || "";
+        result.push(entry.meaning + trailing);
+        break;
+      }
+    }
+
+    if (length === 0) {
+      result.push(tokens[i]);
+      i++;
+    } else {
+      i += length;
+    }
+  }
+
+  return result;
+}
@@ -1,21 +1,44 @@
 import { PrismaClient } from "./generated/prisma";
 import type { RedditData } from "./types/reddit";
 import type { SubredditEntityAnalysis, EntityChain } from "./types/entities";
+import type { CategoryDefinition } from "./types/categories";
+import type { SamplingOptions, TimeFilter } from "./types/datasource";
+import type { ParsedQuery } from "./types/query";
+import type { PreprocessingConfig } from "./types/preprocessing";
+import type { SlangEntry, SlangLexicon } from "./types/slang";
+import type { SentimentPolicy } from "./types/sentiment";
+import { getSubredditKey } from "./subreddits";
+import { DEFAULT_SENTIMENT_ENGINE } from "./engines";
 
 const prisma = new PrismaClient();
 
 export interface CachedAnalysis {
   id: string;
   createdAt: Date;
+  subreddit: string; // Subreddits as stored, comma-separated when several
   query: string;
+  parsedQuery?: ParsedQuery; // Missing on analyses saved before it was recorded
   category: string;
+  subreddits: string[];
   timeframe: string;
   minScore: number;
+  sampling?: SamplingOptions;
+  scrapedAt: Date; // Last fetch, moved forward by refreshes
   totalComments: number;
   totalDiscussions: number;
   discussions: any;
   sentimentAnalysis?: any;
   entityAnalysis?: any;
+  coverage?: any;
+  filtered?: any;
+  deduplicated?: any;
+  languageFilter: string[]; // Empty when comments were not limited by language
+  languages?: any;
+  emoji?: any;
+  preprocessing?: PreprocessingConfig; // Missing on analyses saved before it
+  slangVersion?: string;
+  customSlang: SlangEntry[]; // Slang entries given with the request
+  sentimentPolicy?: SentimentPolicy; // Missing on analyses saved before it
 }
 
 export interface RecentQuery {
@@ -28,13 +51,73 @@ export interface RecentQuery {
 }
 
 /**
- * Check if analysis exists in cache (within last 24 hours)
+ * Read the preprocessing stages of a stored analysis, if it recorded them
+ */
+function toPreprocessing(stages: string[]): PreprocessingConfig | undefined {
+  return stages.length > 0 ? { stages } : undefined;
+}
+
+/**
+ * Read the sentiment policy of a stored analysis, if it recorded it
+ */
+function toSentimentPolicy(analysis: {
+  sentimentEngine: string | null;
+  sarcasmPolicy: string | null;
+  sarcasmThreshold: number | null;
+}): SentimentPolicy | undefined {
+  if (!analysis.sarcasmPolicy || analysis.sarcasmThreshold === null) {
+    return undefined;
+  }
+  return {
+    // Analyses saved before engines were selectable were scored with VADER
+    engine: analysis.sentimentEngine || DEFAULT_SENTIMENT_ENGINE,
+    sarcasm: analysis.sarcasmPolicy as SentimentPolicy["sarcasm"],
+    threshold: analysis.sarcasmThreshold,
+  };
+}
+
+/**
+ * Read the sampling options of a stored analysis, if it recorded them
+ */
+function toSampling(analysis: {
+  searchSort: string | null;
+  postLimit: number | null;
+  commentSort: string | null;
+  commentLimit: number | null;
+}): SamplingOptions | undefined {
+  if (
+    !analysis.searchSort ||
+    !analysis.postLimit ||
+    !analysis.commentSort ||
+    !analysis.commentLimit
+  ) {
+    return undefined;
+  }
+  return {
+    searchSort: analysis.searchSort as SamplingOptions["searchSort"],
+    postLimit: analysis.postLimit,
+    commentSort: analysis.commentSort as SamplingOptions["commentSort"],
+    commentLimit: analysis.commentLimit,
+  };
+}
+
+/**
+ * Check if analysis exists in cache (within last 24 hours) for the same
+ * resolved subreddit set, sampling options, synonym expansion, language
+ * filter, preprocessing stages, slang lexicon versions and sentiment policy
  */
 export async function getCachedAnalysis(
   query: string,
   category: string,
+  subreddits: readonly string[],
   timeframe: string,
-  minScore: number
+  minScore: number,
+  sampling: SamplingOptions,
+  expandSynonyms: boolean,
+  languageFilter: string[],
+  preprocessing: PreprocessingConfig,
+  slangVersion: string,
+  sentimentPolicy: SentimentPolicy
 ): Promise<CachedAnalysis | null> {
   try {
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
@@ -46,8 +129,26 @@ export async function getCachedAnalysis(
           mode: "insensitive",
         },
         category,
+        subreddits: {
+          equals: getSubredditKey(subreddits),
+        },
         timeframe,
         minScore,
+        searchSort: sampling.searchSort,
+        postLimit: sampling.postLimit,
+        commentSort: sampling.commentSort,
+        commentLimit: sampling.commentLimit,
+        expandSynonyms,
+        languageFilter: {
+          equals: languageFilter,
+        },
+        preprocessing: {
+          equals: preprocessing.stages,
+        },
+        slangVersion,
+        sentimentEngine: sentimentPolicy.engine,
+        sarcasmPolicy: sentimentPolicy.sarcasm,
+        sarcasmThreshold: sentimentPolicy.threshold,
         createdAt: {
           gte: twentyFourHoursAgo,
         },
@@ -63,15 +164,30 @@ export async function getCachedAnalysis(
     return {
       id: cached.id,
       createdAt: cached.createdAt,
+      subreddit: cached.subreddit,
       query: cached.query,
+      parsedQuery: (cached.parsedQuery as any) ?? undefined,
       category: cached.category,
+      subreddits: cached.subreddits,
       timeframe: cached.timeframe,
       minScore: cached.minScore,
+      sampling: toSampling(cached),
+      scrapedAt: cached.scrapedAt,
       totalComments: cached.totalComments,
       totalDiscussions: cached.totalDiscussions,
       discussions: cached.discussions,
       sentimentAnalysis: cached.sentimentAnalysis,
       entityAnalysis: cached.entityAnalysis,
+      coverage: cached.coverage,
+      filtered: cached.filtered,
+      deduplicated: cached.deduplicated,
+      languageFilter: cached.languageFilter,
+      languages: cached.languages,
+      emoji: cached.emoji,
+      preprocessing: toPreprocessing(cached.preprocessing),
+      slangVersion: cached.slangVersion ?? undefined,
+      customSlang: (cached.customSlang as any) ?? [],
+      sentimentPolicy: toSentimentPolicy(cached),
     };
   } catch (error) {
     console.error("Error checking cache:", error);
@@ -87,13 +203,31 @@ export async function saveRedditData(data: RedditData): Promise<string> {
     const analysis = await prisma.redditAnalysis.create({
       data: {
         subreddit: data.subreddit,
+        subreddits: getSubredditKey(data.metadata.subreddits || [data.subreddit]),
         query: data.query,
+        parsedQuery: data.metadata.parsedQuery as any,
+        expandSynonyms: data.metadata.parsedQuery?.expanded ?? false,
+        languageFilter: data.metadata.languageFilter || [],
+        preprocessing: data.metadata.preprocessing?.stages || [],
+        slangVersion: data.metadata.slangVersion,
+        customSlang: data.metadata.customSlang as any,
+        sentimentEngine: data.metadata.sentimentPolicy?.engine,
+        sarcasmPolicy: data.metadata.sentimentPolicy?.sarcasm,
+        sarcasmThreshold: data.metadata.sentimentPolicy?.threshold,
         category: data.category,
         timeframe: data.metadata.timeframe,
         minScore: data.metadata.minScore,
+        searchSort: data.metadata.sampling?.searchSort,
+        postLimit: data.metadata.sampling?.postLimit,
+        commentSort: data.metadata.sampling?.commentSort,
+        commentLimit: data.metadata.sampling?.commentLimit,
         totalComments: data.metadata.totalComments,
         totalDiscussions: data.metadata.totalDiscussions,
         scrapedAt: new Date(data.metadata.scrapedAt),
+        coverage: data.metadata.coverage as any,
+        filtered: data.metadata.filtered as any,
+        languages: data.metadata.languages as any,
+        emoji: data.metadata.emoji as any,
         discussions: data.discussions as any,
         sentimentAnalysis: data.sentiment as any,
       },
@@ -107,6 +241,89 @@ export async function saveRedditData(data: RedditData): Promise<string> {
   }
 }
 
+/**
+ * Merge per-subreddit entity analyses by entity type and normalized text
+ */
+function consolidateEntityAnalyses(
+  query: string,
+  entityAnalyses: SubredditEntityAnalysis[]
+) {
+  if (entityAnalyses.length === 0) return null;
+
+  const allEntityChains = entityAnalyses.flatMap(
+    (analysis) => analysis.entityChains
+  );
+  const entityMap = new Map();
+
+  // Consolidate entities by type and normalized text
+  for (const chain of allEntityChains) {
+    const key = `${chain.entity.type}:${chain.entity.normalizedText}`;
+    if (!entityMap.has(key)) {
+      entityMap.set(key, {
+        entity: chain.entity,
+        totalMentions: 0,
+        totalScore: 0,
+        sentimentTrend: [],
+        averageSentiment: chain.averageSentiment,
+      });
+    }
+    const existing = entityMap.get(key);
+    existing.totalMentions += chain.totalMentions;
+    existing.totalScore += chain.totalScore;
+    existing.sentimentTrend.push(...chain.sentimentTrend);
+  }
+
+  const consolidatedChains = Array.from(entityMap.values()).sort(
+    (a, b) => b.totalScore - a.totalScore
+  );
+
+  return {
+    query,
+    timestamp: new Date().toISOString(),
+    totalEntities: consolidatedChains.length,
+    totalMentions: entityAnalyses.reduce(
+      (sum, analysis) => sum + analysis.totalMentions,
+      0
+    ),
+    totalScore: entityAnalyses.reduce(
+      (sum, analysis) => sum + analysis.totalScore,
+      0
+    ),
+    entityBreakdown: {
+      persons: consolidatedChains.filter((c) => c.entity.type === "PERSON")
+        .length,
+      organizations: consolidatedChains.filter(
+        (c) => c.entity.type === "ORGANIZATION"
+      ).length,
+      locations: consolidatedChains.filter((c) => c.entity.type === "LOCATION")
+        .length,
+    },
+    entityChains: consolidatedChains,
+  };
+}
+
+/**
+ * Save individual entity chains of an analysis for detailed analysis
+ */
+async function saveEntityChains(
+  analysisId: string,
+  entityChains: any[]
+): Promise<void> {
+  await prisma.entityChain.createMany({
+    data: entityChains.map((chain: any) => ({
+      analysisId,
+      entityText: chain.entity.text,
+      entityType: chain.entity.type,
+      normalizedText: chain.entity.normalizedText,
+      totalMentions: chain.totalMentions,
+      uniquePosts: chain.uniquePosts || 1,
+      totalScore: chain.totalScore,
+      averageSentiment: chain.averageSentiment as any,
+      sentimentTrend: chain.sentimentTrend as any,
+    })),
+  });
+}
+
 /**
  * Save consolidated analysis with entity data from multiple subreddits
  */
@@ -115,92 +332,52 @@ export async function saveConsolidatedAnalysis(
   entityAnalyses: SubredditEntityAnalysis[] = []
 ): Promise<string> {
   try {
-    let entityAnalysisData = null;
-    if (entityAnalyses.length > 0) {
-      const allEntityChains = entityAnalyses.flatMap(
-        (analysis) => analysis.entityChains
-      );
-      const entityMap = new Map();
-
-      // Consolidate entities by type and normalized text
-      for (const chain of allEntityChains) {
-        const key = `${chain.entity.type}:${chain.entity.normalizedText}`;
-        if (!entityMap.has(key)) {
-          entityMap.set(key, {
-            entity: chain.entity,
-            totalMentions: 0,
-            totalScore: 0,
-            sentimentTrend: [],
-            averageSentiment: chain.averageSentiment,
-          });
-        }
-        const existing = entityMap.get(key);
-        existing.totalMentions += chain.totalMentions;
-        existing.totalScore += chain.totalScore;
-        existing.sentimentTrend.push(...chain.sentimentTrend);
-      }
-
-      const consolidatedChains = Array.from(entityMap.values()).sort(
-        (a, b) => b.totalScore - a.totalScore
-      );
-
-      entityAnalysisData = {
-        query: consolidatedData.query,
-        timestamp: new Date().toISOString(),
-        totalEntities: consolidatedChains.length,
-        totalMentions: entityAnalyses.reduce(
-          (sum, analysis) => sum + analysis.totalMentions,
-          0
-        ),
-        totalScore: entityAnalyses.reduce(
-          (sum, analysis) => sum + analysis.totalScore,
-          0
-        ),
-        entityBreakdown: {
-          persons: consolidatedChains.filter((c) => c.entity.type === "PERSON")
-            .length,
-          organizations: consolidatedChains.filter(
-            (c) => c.entity.type === "ORGANIZATION"
-          ).length,
-          locations: consolidatedChains.filter(
-            (c) => c.entity.type === "LOCATION"
-          ).length,
-        },
-        entityChains: consolidatedChains,
-      };
-    }
+    const entityAnalysisData = consolidateEntityAnalyses(
+      consolidatedData.query,
+      entityAnalyses
+    );
 
     const analysis = await prisma.redditAnalysis.create({
       data: {
         subreddit: consolidatedData.subreddit,
+        subreddits: getSubredditKey(
+          consolidatedData.metadata.subreddits ||
+            consolidatedData.subreddit.split(", ")
+        ),
         query: consolidatedData.query,
+        parsedQuery: consolidatedData.metadata.parsedQuery as any,
+        expandSynonyms:
+          consolidatedData.metadata.parsedQuery?.expanded ?? false,
+        languageFilter: consolidatedData.metadata.languageFilter || [],
+        preprocessing: consolidatedData.metadata.preprocessing?.stages || [],
+        slangVersion: consolidatedData.metadata.slangVersion,
+        customSlang: consolidatedData.metadata.customSlang as any,
+        sentimentEngine: consolidatedData.metadata.sentimentPolicy?.engine,
+        sarcasmPolicy: consolidatedData.metadata.sentimentPolicy?.sarcasm,
+        sarcasmThreshold: consolidatedData.metadata.sentimentPolicy?.threshold,
         category: consolidatedData.category,
         timeframe: consolidatedData.metadata.timeframe,
         minScore: consolidatedData.metadata.minScore,
+        searchSort: consolidatedData.metadata.sampling?.searchSort,
+        postLimit: consolidatedData.metadata.sampling?.postLimit,
+        commentSort: consolidatedData.metadata.sampling?.commentSort,
+        commentLimit: consolidatedData.metadata.sampling?.commentLimit,
         totalComments: consolidatedData.metadata.totalComments,
         totalDiscussions: consolidatedData.metadata.totalDiscussions,
         scrapedAt: new Date(consolidatedData.metadata.scrapedAt),
+        coverage: consolidatedData.metadata.coverage as any,
+        filtered: consolidatedData.metadata.filtered as any,
+        deduplicated: consolidatedData.metadata.deduplicated as any,
+        languages: consolidatedData.metadata.languages as any,
+        emoji: consolidatedData.metadata.emoji as any,
         discussions: consolidatedData.discussions as any,
         sentimentAnalysis: consolidatedData.sentiment as any,
         entityAnalysis: entityAnalysisData as any,
       },
     });
 
-    // Save individual entity chains for detailed analysis
     if (entityAnalysisData?.entityChains) {
-      await prisma.entityChain.createMany({
-        data: entityAnalysisData.entityChains.map((chain: any) => ({
-          analysisId: analysis.id,
-          entityText: chain.entity.text,
-          entityType: chain.entity.type,
-          normalizedText: chain.entity.normalizedText,
-          totalMentions: chain.totalMentions,
-          uniquePosts: chain.uniquePosts || 1,
-          totalScore: chain.totalScore,
-          averageSentiment: chain.averageSentiment as any,
-          sentimentTrend: chain.sentimentTrend as any,
-        })),
-      });
+      await saveEntityChains(analysis.id, entityAnalysisData.entityChains);
     }
 
     console.log(
@@ -213,6 +390,56 @@ export async function saveConsolidatedAnalysis(
   }
 }
 
+/**
+ * Replace the discussions and aggregates of a refreshed analysis. Entity
+ * data is only replaced when new entity analyses are given.
+ */
+export async function updateConsolidatedAnalysis(
+  id: string,
+  consolidatedData: RedditData,
+  entityAnalyses: SubredditEntityAnalysis[] = []
+): Promise<void> {
+  try {
+    const entityAnalysisData = consolidateEntityAnalyses(
+      consolidatedData.query,
+      entityAnalyses
+    );
+
+    await prisma.redditAnalysis.update({
+      where: { id },
+      data: {
+        totalComments: consolidatedData.metadata.totalComments,
+        totalDiscussions: consolidatedData.metadata.totalDiscussions,
+        scrapedAt: new Date(consolidatedData.metadata.scrapedAt),
+        coverage: consolidatedData.metadata.coverage as any,
+        filtered: consolidatedData.metadata.filtered as any,
+        deduplicated: consolidatedData.metadata.deduplicated as any,
+        languages: consolidatedData.metadata.languages as any,
+        emoji: consolidatedData.metadata.emoji as any,
+        slangVersion: consolidatedData.metadata.slangVersion,
+        sentimentEngine: consolidatedData.metadata.sentimentPolicy?.engine,
+        sarcasmPolicy: consolidatedData.metadata.sentimentPolicy?.sarcasm,
+        sarcasmThreshold: consolidatedData.metadata.sentimentPolicy?.threshold,
+        discussions: consolidatedData.discussions as any,
+        sentimentAnalysis: consolidatedData.sentiment as any,
+        ...(entityAnalysisData && {
+          entityAnalysis: entityAnalysisData as any,
+        }),
+      },
+    });
+
+    if (entityAnalysisData) {
+      await prisma.entityChain.deleteMany({ where: { analysisId: id } });
+      await saveEntityChains(id, entityAnalysisData.entityChains);
+    }
+
+    console.log(`💾 Updated analysis ${id} in the database`);
+  } catch (error) {
+    console.error("Error updating analysis:", error);
+    throw error;
+  }
+}
+
 /**
  * Save entity analysis to database only
  */
@@ -321,15 +548,30 @@ export async function getAnalysisById(
     return {
       id: analysis.id,
       createdAt: analysis.createdAt,
+      subreddit: analysis.subreddit,
       query: analysis.query,
+      parsedQuery: (analysis.parsedQuery as any) ?? undefined,
       category: analysis.category,
+      subreddits: analysis.subreddits,
       timeframe: analysis.timeframe,
       minScore: analysis.minScore,
+      sampling: toSampling(analysis),
+      scrapedAt: analysis.scrapedAt,
       totalComments: analysis.totalComments,
       totalDiscussions: analysis.totalDiscussions,
       discussions: analysis.discussions,
       sentimentAnalysis: analysis.sentimentAnalysis,
       entityAnalysis: analysis.entityAnalysis,
+      coverage: analysis.coverage,
+      filtered: analysis.filtered,
+      deduplicated: analysis.deduplicated,
+      languageFilter: analysis.languageFilter,
+      languages: analysis.languages,
+      emoji: analysis.emoji,
+      preprocessing: toPreprocessing(analysis.preprocessing),
+      slangVersion: analysis.slangVersion ?? undefined,
+      customSlang: (analysis.customSlang as any) ?? [],
+      sentimentPolicy: toSentimentPolicy(analysis),
     };
   } catch (error) {
     console.error("Error fetching analysis by ID:", error);
@@ -360,6 +602,141 @@ export async function cleanupOldAnalyses(): Promise<number> {
   }
 }
 
+function toCategoryDefinition(category: any): CategoryDefinition {
+  return {
+    key: category.key,
+    label: category.label,
+    description: category.description ?? undefined,
+    subreddits: category.subreddits,
+    defaultTimeframe: category.defaultTimeframe as TimeFilter,
+    defaultMinScore: category.defaultMinScore,
+  };
+}
+
+/**
+ * Get all categories, ordered by creation
+ */
+export async function getCategories(): Promise<CategoryDefinition[]> {
+  const categories = await prisma.category.findMany({
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return categories.map(toCategoryDefinition);
+}
+
+/**
+ * Get a category by key
+ */
+export async function getCategoryByKey(
+  key: string
+): Promise<CategoryDefinition | null> {
+  const category = await prisma.category.findUnique({ where: { key } });
+  return category ? toCategoryDefinition(category) : null;
+}
+
+/**
+ * Create a category
+ */
+export async function createCategory(
+  category: CategoryDefinition
+): Promise<CategoryDefinition> {
+  const created = await prisma.category.create({
+    data: {
+      ...category,
+      description: category.description ?? null,
+    },
+  });
+  console.log(`💾 Created category "${created.key}"`);
+  return toCategoryDefinition(created);
+}
+
+/**
+ * Replace a category's settings, the key stays the same
+ */
+export async function updateCategory(
+  category: CategoryDefinition
+): Promise<CategoryDefinition> {
+  const { key, ...data } = category;
+  const updated = await prisma.category.update({
+    where: { key },
+    data: {
+      ...data,
+      description: data.description ?? null,
+    },
+  });
+  console.log(`💾 Updated category "${key}"`);
+  return toCategoryDefinition(updated);
+}
+
+/**
+ * Delete a category by key
+ */
+export async function deleteCategory(key: string): Promise<void> {
+  await prisma.category.delete({ where: { key } });
+  console.log(`🗑️ Deleted category "${key}"`);
+}
+
+/**
+ * Insert the built-in categories unless they were seeded before, together
+ * with a marker so categories deleted later are not seeded again. Of
+ * concurrent first loads only one inserts.
+ */
+export async function seedCategories(
+  categories: CategoryDefinition[]
+): Promise<void> {
+  try {
+    await prisma.$transaction([
+      prisma.seed.create({ data: { key: "categories" } }),
+      prisma.category.createMany({
+        data: categories.map((category) => ({
+          ...category,
+          description: category.description ?? null,
+        })),
+      }),
+    ]);
+  } catch (error: any) {
+    // The marker exists (P2002) or another load is writing it (P2034)
+    if (error?.code === "P2002" || error?.code === "P2034") return;
+    throw error;
+  }
+  console.log(`🌱 Seeded ${categories.length} categories`);
+}
+
+function toSlangLexicon(lexicon: any): SlangLexicon {
+  return {
+    key: lexicon.key,
+    version: lexicon.version,
+    entries: lexicon.entries as SlangEntry[],
+    source: "database",
+  };
+}
+
+/**
+ * Get the slang lexicons edited at runtime
+ */
+export async function getSlangLexicons(): Promise<SlangLexicon[]> {
+  const lexicons = await prisma.slangLexicon.findMany();
+  return lexicons.map(toSlangLexicon);
+}
+
+/**
+ * Store the entries of an edited slang lexicon, raising its version
+ */
+export async function saveSlangLexicon(
+  key: string,
+  entries: SlangEntry[]
+): Promise<SlangLexicon> {
+  // Versions of edited lexicons count the edits, apart from the files'
+  const saved = await prisma.slangLexicon.upsert({
+    where: { key },
+    create: { key, version: 1, entries: entries as any },
+    update: { version: { increment: 1 }, entries: entries as any },
+  });
+  console.log(`💾 Saved slang lexicon "${key}" version ${saved.version}`);
+  return toSlangLexicon(saved);
+}
+
 /**
  * Close database connection
  */
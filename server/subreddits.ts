@@ -0,0 +1,118 @@
+/**
+ * Subreddit Selection
+ *
+ * This module handles:
+ * - Resolving a category and/or explicit subreddit lists into one set
+ * - Applying include/exclude lists on top of a category
+ * - Validating subreddit names before anything is fetched
+ * - Normalising the resolved set into a cache key
+ */
+
+import type {
+  CategoryMap,
+  ResolvedSubreddits,
+  SubredditSelection,
+} from "./types/categories";
+
+export const CUSTOM_CATEGORY = "custom";
+export const MAX_SUBREDDITS = 25;
+
+// Reddit names: 2-21 letters, digits or underscores, not starting with "_"
+const SUBREDDIT_NAME = /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/;
+
+export function isValidSubredditName(name: string): boolean {
+  return SUBREDDIT_NAME.test(name);
+}
+
+/**
+ * Strip "r/" and "/r/" prefixes and surrounding whitespace
+ */
+export function normalizeSubredditName(name: string): string {
+  return name.trim().replace(/^\/?r\//i, "");
+}
+
+/**
+ * Split a comma-separated CLI or form value into subreddit names
+ */
+export function parseSubredditList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map(normalizeSubredditName)
+    .filter(Boolean);
+}
+
+function toNameList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") return parseSubredditList(value);
+  if (!Array.isArray(value) || value.some((name) => typeof name !== "string")) {
+    throw new Error(`"${field}" must be a list of subreddit names`);
+  }
+  return value.map(normalizeSubredditName).filter(Boolean);
+}
+
+/**
+ * Resolve a category and/or explicit lists into a validated subreddit set.
+ * Throws with a user-facing message when the selection is invalid.
+ */
+export function resolveSubreddits(
+  selection: SubredditSelection,
+  categoryMap: CategoryMap
+): ResolvedSubreddits {
+  const explicit = toNameList(selection.subreddits, "subreddits");
+  const include = toNameList(selection.include, "include");
+  const exclude = toNameList(selection.exclude, "exclude");
+  // "custom" only labels explicit lists, any other category must exist
+  const category =
+    selection.category && selection.category !== CUSTOM_CATEGORY
+      ? selection.category
+      : undefined;
+
+  if (category && !categoryMap[category]) {
+    throw new Error(
+      `Invalid category. Choose from: ${Object.keys(categoryMap).join(", ")}`
+    );
+  }
+  if (!category && explicit.length === 0 && include.length === 0) {
+    throw new Error("Provide a category or a list of subreddits");
+  }
+
+  const invalid = [...explicit, ...include, ...exclude].filter(
+    (name) => !isValidSubredditName(name)
+  );
+  if (invalid.length > 0) {
+    throw new Error(`Invalid subreddit name(s): ${invalid.join(", ")}`);
+  }
+
+  const base =
+    explicit.length > 0 ? explicit : [...(categoryMap[category!] || [])];
+  const excluded = new Set(exclude.map((name) => name.toLowerCase()));
+
+  // De-duplicate case-insensitively, keeping the first spelling
+  const seen = new Set<string>();
+  const subreddits: string[] = [];
+  for (const name of [...base, ...include]) {
+    const key = name.toLowerCase();
+    if (seen.has(key) || excluded.has(key)) continue;
+    seen.add(key);
+    subreddits.push(name);
+  }
+
+  if (subreddits.length === 0) {
+    throw new Error("The selection leaves no subreddits to analyse");
+  }
+  if (subreddits.length > MAX_SUBREDDITS) {
+    throw new Error(
+      `Too many subreddits (${subreddits.length}), the limit is ${MAX_SUBREDDITS}`
+    );
+  }
+
+  return { category: category || CUSTOM_CATEGORY, subreddits };
+}
+
+/**
+ * Order-independent, case-insensitive form of a subreddit set for caching
+ */
+export function getSubredditKey(subreddits: readonly string[]): string[] {
+  return [...new Set(subreddits.map((name) => name.toLowerCase()))].sort();
+}
@@ -0,0 +1,146 @@
+/**
+ * Comment Thread Reconstruction
+ *
+ * This module handles:
+ * - Linking flat comment lists into reply trees via parent_id
+ * - Limiting tree depth and the total number of kept comments
+ * - Recording each kept comment's depth
+ * - Counting comments across trees of any depth
+ * - Flattening trees back into comment lists
+ */
+
+import type { RedditComment } from "./types/reddit";
+import type { CommentTreeOptions } from "./types/datasource";
+
+export interface CommentTreeStats {
+  total: number; // Comments passed in
+  kept: number; // Comments present in the returned tree
+  orphaned: number; // Replies whose parent was not fetched (kept as roots)
+  droppedByDepth: number;
+  droppedByBudget: number;
+}
+
+export const DEFAULT_COMMENT_TREE_OPTIONS: CommentTreeOptions = {
+  maxDepth: 10,
+  maxNodes: 500,
+};
+
+/**
+ * Rebuild reply trees from a flat list of comments.
+ *
+ * Siblings keep their input order. When the node budget is exhausted the
+ * tree is filled breadth-first, so shallow comments win over deep ones.
+ */
+export function buildCommentTree(
+  comments: RedditComment[],
+  options: CommentTreeOptions = DEFAULT_COMMENT_TREE_OPTIONS
+): { roots: RedditComment[]; stats: CommentTreeStats } {
+  const stats: CommentTreeStats = {
+    total: comments.length,
+    kept: 0,
+    orphaned: 0,
+    droppedByDepth: 0,
+    droppedByBudget: 0,
+  };
+
+  const commentMap = new Map<string, RedditComment>();
+  const children = new Map<string, RedditComment[]>();
+  const candidateRoots: RedditComment[] = [];
+
+  for (const comment of comments) {
+    if (comment.id && !commentMap.has(comment.id)) {
+      commentMap.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+
+  for (const comment of commentMap.values()) {
+    const parentId = comment.parentId || "";
+    const parentKey = parentId.startsWith("t1_") ? parentId.slice(3) : null;
+
+    if (parentKey && commentMap.has(parentKey)) {
+      if (!children.has(parentKey)) {
+        children.set(parentKey, []);
+      }
+      children.get(parentKey)!.push(comment);
+      continue;
+    }
+
+    if (parentKey) {
+      stats.orphaned++;
+    }
+    candidateRoots.push(comment);
+  }
+
+  const roots: RedditComment[] = [];
+  let queue: Array<{ comment: RedditComment; parent: RedditComment | null }> =
+    candidateRoots.map((comment) => ({ comment, parent: null }));
+
+  for (let depth = 0; queue.length > 0; depth++) {
+    const next: typeof queue = [];
+
+    for (const { comment, parent } of queue) {
+      if (depth > options.maxDepth) {
+        stats.droppedByDepth += 1 + countDescendants(comment.id, children);
+        continue;
+      }
+      if (stats.kept >= options.maxNodes) {
+        stats.droppedByBudget += 1 + countDescendants(comment.id, children);
+        continue;
+      }
+
+      stats.kept++;
+      comment.depth = depth;
+      if (parent) {
+        parent.replies.push(comment);
+      } else {
+        roots.push(comment);
+      }
+
+      for (const child of children.get(comment.id) || []) {
+        next.push({ comment: child, parent: comment });
+      }
+    }
+
+    queue = next;
+  }
+
+  return { roots, stats };
+}
+
+function countDescendants(
+  id: string,
+  children: Map<string, RedditComment[]>
+): number {
+  return (children.get(id) || []).reduce(
+    (sum, child) => sum + 1 + countDescendants(child.id, children),
+    0
+  );
+}
+
+/**
+ * Count comments in a list of trees, including every nested reply
+ */
+export function countComments(comments: RedditComment[]): number {
+  return comments.reduce(
+    (count, comment) => count + 1 + countComments(comment.replies || []),
+    0
+  );
+}
+
+/**
+ * Flatten trees into a list of comments without replies, parents first.
+ * Replies without a parent id get one from their position in the tree.
+ */
+export function flattenCommentTree(
+  comments: RedditComment[],
+  parentId?: string
+): RedditComment[] {
+  return comments.flatMap((comment) => [
+    {
+      ...comment,
+      parentId: comment.parentId || parentId,
+      replies: [],
+    },
+    ...flattenCommentTree(comment.replies || [], `t1_${comment.id}`),
+  ]);
+}
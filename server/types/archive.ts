@@ -0,0 +1,57 @@
+import type { ParsedQuery } from "./query";
+
+// Record shapes found in Pushshift NDJSON dumps (only the fields we use)
+export interface ArchiveSubmission {
+  id: string;
+  subreddit: string;
+  title: string;
+  selftext?: string;
+  author?: string;
+  score: number;
+  created_utc: number | string;
+  permalink?: string;
+  url?: string;
+  num_comments?: number;
+  upvote_ratio?: number;
+  link_flair_text?: string | null;
+  crosspost_parent?: string;
+  over_18?: boolean;
+  spoiler?: boolean;
+}
+
+export interface ArchiveComment {
+  id: string;
+  subreddit: string;
+  body: string;
+  author?: string;
+  score: number;
+  created_utc: number | string;
+  parent_id: string; // t1_<comment id> or t3_<submission id>
+  link_id: string; // t3_<submission id>
+  permalink?: string; // Missing from older dumps
+  author_flair_text?: string | null;
+  controversiality?: number;
+  edited?: boolean | number;
+  distinguished?: string | null;
+  stickied?: boolean;
+  is_submitter?: boolean; // Missing from older dumps
+  gildings?: Record<string, number>;
+}
+
+export interface ArchiveImportOptions {
+  files: string[]; // .ndjson, .jsonl or .zst files, submissions and/or comments
+  subreddits: string[];
+  query: ParsedQuery; // Submissions must match it in title or self-text
+  category: string;
+  after?: Date; // Inclusive lower bound on submission creation time
+  before?: Date; // Exclusive upper bound on submission creation time
+  minPostScore?: number;
+}
+
+export interface ArchiveImportStats {
+  linesRead: number;
+  invalidLines: number;
+  submissionsMatched: number;
+  commentsMatched: number;
+  orphanedComments: number; // Parent comment missing from the dump
+}
@@ -0,0 +1,73 @@
+import type { Discussion, RedditData } from "./reddit";
+import type { RequestBudget } from "../datasource";
+import type { ParsedQuery } from "./query";
+import type { PreprocessingConfig } from "./preprocessing";
+import type { SentimentPolicy } from "./sentiment";
+import type { SlangEntry } from "./slang";
+
+export type TimeFilter = "hour" | "day" | "week" | "month" | "year" | "all";
+
+export type SearchSort = "relevance" | "hot" | "top" | "new" | "comments";
+
+export type CommentSort =
+  | "confidence"
+  | "top"
+  | "new"
+  | "controversial"
+  | "old"
+  | "qa";
+
+export interface SamplingOptions {
+  searchSort: SearchSort; // Order posts are searched and kept in
+  postLimit: number; // Posts kept per subreddit
+  commentSort: CommentSort; // Order comments are fetched in (reddit source only)
+  commentLimit: number; // Comments fetched per post before expansion (reddit source only)
+}
+
+export interface DataSourceRequest {
+  subreddit: string;
+  query: string;
+  parsedQuery?: ParsedQuery; // Structured query, searched as its `search` string
+  category: string;
+  timeframe: TimeFilter;
+  minPostScore: number;
+  sampling: SamplingOptions;
+  languageFilter?: string[]; // Languages comments are limited to, empty for all
+  preprocessing?: PreprocessingConfig; // Pipeline stages, the default when missing
+  customSlang?: SlangEntry[]; // Slang entries on top of the category's lexicon
+  sentimentPolicy?: SentimentPolicy; // The configured default when missing
+}
+
+// One search across several subreddits, sent to the source per subreddit
+export interface SubredditsRequest
+  extends Omit<DataSourceRequest, "subreddit"> {
+  subreddits: readonly string[];
+}
+
+export interface DataSource {
+  name: string; // Identifier used in logs and config (reddit, fixture, memory)
+  initialize?(): Promise<void>; // Called once per analysis before fetching
+  fetch(request: DataSourceRequest): Promise<RedditData | null>; // Raw, unprocessed data
+  expand?(data: RedditData[], budget: RequestBudget): Promise<void>; // Load collapsed comments in place
+}
+
+export interface CommentTreeOptions {
+  maxDepth: number; // Deepest reply level kept, root comments are depth 0
+  maxNodes: number; // Total comments kept per discussion
+}
+
+export type DataSourceType = "reddit" | "fixture" | "memory";
+
+export interface DataSourceConfig {
+  type: DataSourceType;
+  fixtureDir?: string; // Directory of JSON fixtures (fixture source only)
+  seed?: Record<string, Discussion[]>; // Discussions per subreddit (memory source only)
+  commentTree?: CommentTreeOptions; // Depth and node budget (reddit source only)
+  expansionBudget?: number; // "Load more" API calls per analysis (reddit source only)
+  concurrency?: FetchConcurrency;
+}
+
+export interface FetchConcurrency {
+  subreddits: number; // Subreddit searches in flight at once
+  comments: number; // Comment fetches in flight per subreddit (reddit source only)
+}
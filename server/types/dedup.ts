@@ -0,0 +1,5 @@
+export interface DeduplicationStats {
+  duplicateDiscussions: number; // Same post fetched from several subreddits
+  mergedCrossposts: number; // Crossposts merged into the first copy
+  collapsedComments: number; // Copypasta collapsed into the first copy
+}
@@ -0,0 +1,34 @@
+import type { TimeFilter } from "./datasource";
+
+export interface DiscoveryOptions {
+  timeframe: TimeFilter;
+  postLimit: number; // Site-wide posts scanned for the query
+  includeNsfw: boolean;
+}
+
+export interface CandidatePost {
+  title: string;
+  url: string;
+  score: number;
+  numComments: number;
+}
+
+export interface SubredditCandidate {
+  name: string;
+  postCount: number; // Matching posts among those scanned
+  totalScore: number; // Upvotes across matching posts
+  totalComments: number; // Comments across matching posts
+  rank: number; // Post volume weighted by engagement, higher is better
+  matchedByName: boolean; // Also returned by the subreddit name/description search
+  subscribers?: number;
+  description?: string;
+  nsfw: boolean;
+  topPosts: CandidatePost[]; // Highest-scoring matching posts
+}
+
+export interface DiscoveryResult {
+  query: string;
+  timeframe: TimeFilter;
+  postsScanned: number;
+  candidates: SubredditCandidate[];
+}
@@ -0,0 +1,8 @@
+// Emoji and emoticons in a text, by symbol with skin tones removed
+export type EmojiCounts = Record<string, number>;
+
+export interface EmojiStats {
+  total: number; // Emoji and emoticons in posts and comments
+  comments: number; // Posts and comments using at least one
+  counts: EmojiCounts; // Uses per symbol
+}
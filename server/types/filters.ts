@@ -0,0 +1,23 @@
+export type ContentFilterReason =
+  | "knownBot" // Author on the known-bot list
+  | "botPattern" // Author name looks like a bot
+  | "deleted" // Body is "[deleted]"
+  | "removed" // Body is "[removed]" or removed by Reddit
+  | "boilerplate" // Bot or moderator template, or repeated by the same author
+  | "tooShort" // Fewer letters, digits or emoji than the minimum
+  | "language"; // Written in a language the analysis is not limited to
+
+export interface ContentFilterOptions {
+  enabled: boolean;
+  knownBots: string[]; // Author names, compared case-insensitively
+  botPatterns: RegExp[]; // Tested against author names
+  boilerplatePatterns: RegExp[]; // Tested against comment bodies
+  boilerplateRepeats: number; // Same text by the same author this often is boilerplate, 0 disables
+  minLength: number; // Letters, digits and emoji a comment needs, 0 disables
+}
+
+export interface ContentFilterStats {
+  checked: number; // Comments inspected, including replies
+  excluded: Record<ContentFilterReason, number>; // By first matching reason
+  clearedPostBodies: number; // Deleted or removed self-texts dropped from posts
+}
@@ -0,0 +1,16 @@
+export interface LanguageDetection {
+  code: string; // ISO 639-1 code, "und" when the text is too short to tell
+  confidence: number; // 0-1
+}
+
+export interface LanguageBreakdown {
+  code: string;
+  comments: number; // Comments and posts detected in the language
+  scored: boolean; // Counted in the sentiment aggregates
+  compound: number | null; // Average compound score, null when not scored
+}
+
+export interface LanguageStats {
+  breakdown: LanguageBreakdown[]; // Most common language first
+  unscored: number; // Comments and posts left out of the sentiment aggregates
+}
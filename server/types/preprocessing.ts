@@ -0,0 +1,25 @@
+import type { ProcessedComment } from "./reddit";
+import type { SlangDictionary } from "./slang";
+
+// Text and tokens as they pass through the preprocessing stages
+export type PreprocessingState = Omit<
+  ProcessedComment,
+  "processed" | "score" | "sentiment" | "entities"
+>;
+
+// What a stage may need to know about the text beyond the text itself
+export interface PreprocessingContext {
+  category: string; // Category key of the analysis, "" when unknown
+  slang: SlangDictionary; // Lexicons of the category and the analysis
+}
+
+export interface PreprocessingStage {
+  name: string; // Referenced by preprocessing configurations
+  description: string;
+  // Updates the state in place
+  run(state: PreprocessingState, context: PreprocessingContext): void;
+}
+
+export interface PreprocessingConfig {
+  stages: string[]; // Stage names, in the order they run
+}
@@ -0,0 +1,20 @@
+export interface QueryTerm {
+  text: string; // Lowercased word or phrase
+  phrase: boolean; // Several words matched together
+  synonyms: string[]; // Alternatives added by synonym expansion
+}
+
+export interface ParsedQuery {
+  text: string; // Query as entered
+  required: QueryTerm[]; // Every term must match
+  anyOf: QueryTerm[][]; // At least one term of each OR-list must match
+  excluded: QueryTerm[]; // No term may match
+  expanded: boolean; // Synonyms were added
+  search: string; // Query sent to Reddit search
+}
+
+export interface QueryMatch {
+  post: boolean; // Title or self-text matches the query
+  matchingComments: number; // Comments, including replies, matching the query
+  looselyRelated: boolean; // Neither the post nor any comment matches
+}
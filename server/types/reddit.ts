@@ -1,7 +1,60 @@
-import type { SentimentAnalysis, SentimentScores } from "./sentiment";
+import type {
+  SentimentAnalysis,
+  SentimentPolicy,
+  SentimentScores,
+} from "./sentiment";
 import type { Entity, EntityChain, SubredditEntityAnalysis } from "./entities";
+import type { SamplingOptions } from "./datasource";
+import type { ContentFilterStats } from "./filters";
+import type { DeduplicationStats } from "./dedup";
+import type { ParsedQuery, QueryMatch } from "./query";
+import type { LanguageDetection, LanguageStats } from "./language";
+import type { PreprocessingConfig } from "./preprocessing";
+import type { EmojiCounts, EmojiStats } from "./emoji";
+import type { SlangEntry } from "./slang";
+import type { SarcasmDetection } from "./sarcasm";
 
-export interface RedditComment {
+// Comment fields copied from the Reddit API or Pushshift records when present
+export interface CommentMetadata {
+  authorFlair?: string; // Author's flair text in the subreddit
+  controversiality?: number; // 1 when Reddit marks the comment controversial
+  edited?: string; // Time of the last edit, missing when never edited
+  distinguished?: string; // "moderator" or "admin" when posted as such
+  stickied?: boolean;
+  isSubmitter?: boolean; // Written by the post's author (OP)
+  gildings?: Record<string, number>; // Awards by gilding type, e.g. gid_2
+  depth?: number; // Reply level in the comment tree, 0 for root comments
+  permalink?: string; // Absolute URL of the comment
+}
+
+// Post fields copied from the Reddit API or Pushshift records when present
+export interface PostMetadata {
+  author?: string;
+  upvoteRatio?: number; // Share of votes that are upvotes, 0-1
+  linkFlair?: string; // Post flair text
+  crosspostParent?: string; // Fullname (t3_...) of the original post
+  nsfw?: boolean;
+  spoiler?: boolean;
+}
+
+// Another subreddit's copy of a discussion, kept when duplicates are merged
+export interface DiscussionCopy {
+  subreddit: string;
+  id: string; // Post id in that subreddit
+  score: number;
+  crosspost: boolean; // A crosspost rather than the same post fetched twice
+}
+
+// A near-identical comment (copypasta) collapsed into the first copy
+export interface CommentCopy {
+  subreddit: string;
+  discussionId: string; // Discussion holding the copy once crossposts merged
+  id: string;
+  author: string;
+  score: number;
+}
+
+export interface RedditComment extends CommentMetadata {
   id: string;
   body: string; // Main comment text
   text: string; // Processed version
@@ -13,6 +66,13 @@ export interface RedditComment {
   replies: RedditComment[];
   sentiment?: SentimentAnalysis;
   entities?: Entity[];
+  subreddit?: string; // Set on comments merged in from a crosspost
+  copies?: CommentCopy[]; // Copypasta collapsed into this comment
+  language?: LanguageDetection; // Set by preprocessing
+  plainText?: string; // Body without markdown, for display
+  emoji?: EmojiCounts; // Emoji and emoticons used, set by preprocessing
+  normalizedText?: string; // Text with slang replaced, set by preprocessing
+  sarcasm?: ProcessedComment["sarcasm"]; // Set by preprocessing
   // Temporary fields for building comment tree
   parentId?: string;
 }
@@ -24,40 +84,74 @@ export interface ProcessedComment {
   tokens: string[];
   tokensWithoutStopwords: string[];
   normalizedTokens: string[];
-  sarcasm: {
-    isSarcastic: boolean;
-    confidence: number;
-  };
+  sarcasm: SarcasmDetection;
+  language?: LanguageDetection; // Missing on analyses saved before detection
+  plainText?: string; // Original without markdown, set by stripMarkdown
+  emoji?: EmojiCounts; // Missing when none were used
+  normalizedText?: string; // Text with slang replaced, set by normalizeSlang
   score?: number;
   sentiment?: SentimentAnalysis;
   entities?: Entity[];
 }
 
-export interface Discussion {
+export interface Discussion extends PostMetadata {
   id: string;
   title: string;
   url: string;
   content?: string; // Post content (if available)
   timestamp: string;
   score: number; // Reddit post score (upvotes)
+  numComments?: number; // Comment count reported by Reddit
+  copies?: DiscussionCopy[]; // Same post or crossposts in other subreddits
+  queryMatch?: QueryMatch; // How the post and comments match the query
   comments: RedditComment[];
   processedComments?: ProcessedComment[];
-  sentiment?: SentimentAnalysis;
+  post?: ProcessedComment; // Title and self-text, preprocessed and scored
+  sentiment?: SentimentAnalysis; // Post and responses combined
+  postSentiment?: SentimentAnalysis; // Title and self-text only
+  responseSentiment?: SentimentAnalysis; // Top-level comments only
   entities?: Entity[];
   entityChains?: EntityChain[];
 }
 
+export interface CommentCoverage {
+  fetchedComments: number; // Comments present in the discussion trees
+  reportedComments: number; // Sum of num_comments reported by Reddit
+  ratio: number; // fetched / reported, 1 when nothing was reported
+  expansionRequests: number; // "Load more" API calls spent for the analysis
+  expansionBudget: number;
+}
+
+export interface SubredditFailure {
+  subreddit: string;
+  error: string; // Message of the last error after retries
+}
+
 export interface RedditData {
   subreddit: string; // Updated from subredditName
   query: string;
   category: string;
   metadata: {
     query: string;
+    parsedQuery?: ParsedQuery; // Structured query and Reddit search string
     timeframe: string;
     minScore: number;
     totalComments: number;
     totalDiscussions: number;
     scrapedAt: string;
+    subreddits?: string[]; // Resolved set that was requested, including empty ones
+    sampling?: SamplingOptions; // How posts and comments were sampled
+    coverage?: CommentCoverage;
+    filtered?: ContentFilterStats; // Comments excluded before analysis
+    deduplicated?: DeduplicationStats; // Duplicates merged across subreddits
+    languageFilter?: string[]; // Languages comments were limited to, empty for all
+    languages?: LanguageStats; // Comments and sentiment per language
+    emoji?: EmojiStats; // Emoji and emoticon use across posts and comments
+    preprocessing?: PreprocessingConfig; // Stages the text went through
+    customSlang?: SlangEntry[]; // Slang entries given with the analysis
+    slangVersion?: string; // Slang lexicons used, e.g. "global@3+finance@1"
+    sentimentPolicy?: SentimentPolicy; // Engine and how sarcasm adjusts sentiment
+    failedSubreddits?: SubredditFailure[]; // Subreddits that could not be fetched
   };
   discussions: Discussion[];
   sentiment?: SentimentAnalysis;
@@ -0,0 +1,28 @@
+export type SarcasmFeature =
+  | "marker" // "/s" or "/sarcasm"
+  | "phrase" // Stock phrases like "yeah right" or "said no one ever"
+  | "punctuation" // "!!", "?!" or trailing "..."
+  | "contrast" // Praise next to something going wrong
+  | "emoji" // Eye rolls, smirks, winks and clowns
+  | "capitalization" // SHOUTED praise or mocking aLtErNaTiNg case
+  | "quotes"; // Scare quotes around one or two words
+
+// Strength of each feature in a text, from 0 to 1
+export type SarcasmFeatures = Record<SarcasmFeature, number>;
+
+export interface SarcasmWeights {
+  bias: number; // Log-odds of sarcasm when no feature is present
+  features: Record<SarcasmFeature, number>;
+}
+
+export interface SarcasmDetection {
+  isSarcastic: boolean; // Confidence of 50 or more
+  confidence: number; // Probability of sarcasm, 0-100
+  features?: SarcasmFeature[]; // Features found, missing when none were
+}
+
+// A labelled example of the evaluation set
+export interface SarcasmExample {
+  text: string;
+  sarcastic: boolean;
+}
@@ -5,8 +5,33 @@ export interface SentimentScores {
   neg: number;
 }
 
+// Scores text; every engine reports on VADER's scale
+export interface SentimentEngine {
+  name: string; // Referenced by sentiment policies
+  description: string;
+  score(text: string): SentimentScores;
+}
+
+// What sarcasm does to the score: nothing, move it towards neutral, or
+// move it towards the opposite polarity, in proportion to the confidence
+export type SarcasmPolicy = "none" | "dampen" | "invert";
+
+export interface SentimentPolicy {
+  engine: string; // Name of the sentiment engine scoring the text
+  sarcasm: SarcasmPolicy;
+  threshold: number; // Sarcasm confidence (0-100) from which the policy applies
+}
+
+// Change of the compound score from `original` to `overall`, by cause
+export interface SentimentAdjustment {
+  slang: number; // Scoring the text with slang replaced
+  sarcasm: number; // The sarcasm policy
+  total: number;
+}
+
 export interface SentimentAnalysis {
-  original: SentimentScores; // VADER scores
-  overall: SentimentScores; // Same as original for now
-  label: "positive" | "negative" | "neutral"; // Classification
+  original: SentimentScores; // Engine scores of the text as written
+  overall: SentimentScores; // Adjusted for slang and sarcasm
+  label: "positive" | "negative" | "neutral"; // Classification of overall
+  adjustment?: SentimentAdjustment; // Missing on analyses saved before it
 }
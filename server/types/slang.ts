@@ -0,0 +1,19 @@
+export interface SlangEntry {
+  term: string; // Lowercase, one or more words
+  meaning: string; // Empty to drop the term from more general lexicons
+  context?: string[]; // Phrases, one of which the text must contain
+}
+
+export interface SlangLexicon {
+  key: string; // "global", or the category key it applies to
+  version: number; // Of the file, or raised by every edit in the database
+  entries: SlangEntry[];
+  source: "file" | "database"; // Edited lexicons are stored in the database
+}
+
+// Lexicons of an analysis combined, the most specific meaning of a term winning
+export interface SlangDictionary {
+  version: string; // e.g. "global@3+finance@db2", "+custom@<hash>" for request entries
+  entries: Map<string, { meaning: string; context?: string[] }>;
+  maxWords: number; // Words in the longest term
+}